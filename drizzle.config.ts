@@ -0,0 +1,11 @@
+import "dotenv/config";
+import { defineConfig } from "drizzle-kit";
+
+// `npm run db:generate -- --name <name>` writes the next SQL migration to
+// migrations/ from src/schema.ts; `npm run migrate up` applies it.
+export default defineConfig({
+  dialect: "postgresql",
+  schema: "./src/schema.ts",
+  out: "./migrations",
+  dbCredentials: { url: process.env.DB_URL ?? "" },
+});
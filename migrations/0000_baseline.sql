@@ -0,0 +1,48 @@
+CREATE TABLE "scraped_product_listings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_name" varchar(2000) NOT NULL,
+	"ean" varchar(100),
+	"price" integer,
+	"currency" varchar(16),
+	"in_stock" boolean DEFAULT false,
+	"product_url" varchar(5000),
+	"image_url" varchar(5000),
+	"scraped_store_id" integer NOT NULL,
+	"matched_store_id" integer,
+	"raw_data" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "scraped_stores" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(1000) NOT NULL,
+	"domain" varchar(1000) NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "stores" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(1000) NOT NULL,
+	"display_name" varchar(1000),
+	"store_domain" varchar(1000) NOT NULL,
+	"slug" varchar(1000) NOT NULL,
+	"description" text,
+	"logo_url" varchar(1000),
+	"is_active" boolean DEFAULT true,
+	"published" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp,
+	CONSTRAINT "stores_name_unique" UNIQUE("name"),
+	CONSTRAINT "stores_store_domain_unique" UNIQUE("store_domain"),
+	CONSTRAINT "stores_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD CONSTRAINT "scraped_product_listings_scraped_store_id_scraped_stores_id_fk" FOREIGN KEY ("scraped_store_id") REFERENCES "public"."scraped_stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD CONSTRAINT "scraped_product_listings_matched_store_id_stores_id_fk" FOREIGN KEY ("matched_store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scrapedStoreIdIndex" ON "scraped_product_listings" USING btree ("scraped_store_id");--> statement-breakpoint
+CREATE INDEX "matchedStoreIdIndex" ON "scraped_product_listings" USING btree ("matched_store_id");--> statement-breakpoint
+CREATE INDEX "scrapedProductUrlIndex" ON "scraped_product_listings" USING btree ("product_url");--> statement-breakpoint
+CREATE UNIQUE INDEX "uniqueScrapedStoreDomain" ON "scraped_stores" USING btree ("domain");--> statement-breakpoint
+CREATE UNIQUE INDEX "uniqueStoreDomainIndex" ON "stores" USING btree ("store_domain");
\ No newline at end of file
@@ -0,0 +1,70 @@
+CREATE TABLE "scrape_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"run_id" varchar(200) NOT NULL,
+	"job_id" varchar(200),
+	"scraped_store_id" integer NOT NULL,
+	"run_mode" varchar(16) NOT NULL,
+	"status" varchar(16) DEFAULT 'running' NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp,
+	"discovered" integer,
+	"planned" integer,
+	"visited" integer,
+	"ok" integer,
+	"fails" integer,
+	"wrote" integer,
+	"inserted" integer,
+	"updated" integer,
+	"skipped" integer,
+	"write_failed" integer,
+	"price_changes" integer,
+	"via_fastpath" integer,
+	"via_browser" integer,
+	"phase_durations_ms" jsonb,
+	"error_breakdown" jsonb,
+	"error" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "scraped_price_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scraped_store_id" integer NOT NULL,
+	"product_url" varchar(5000) NOT NULL,
+	"ean" varchar(100),
+	"price_minor" integer,
+	"original_price_minor" integer,
+	"currency" varchar(16),
+	"in_stock" boolean,
+	"changed_fields" jsonb NOT NULL,
+	"scrape_run_id" integer,
+	"recorded_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scraped_url_state" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scraped_store_id" integer NOT NULL,
+	"url" varchar(5000) NOT NULL,
+	"lastmod" timestamp,
+	"last_crawled_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "price_minor" integer;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "original_price_minor" integer;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "discount_percent" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "brand" varchar(1000);--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "scrape_run_id" integer;--> statement-breakpoint
+ALTER TABLE "scrape_runs" ADD CONSTRAINT "scrape_runs_scraped_store_id_scraped_stores_id_fk" FOREIGN KEY ("scraped_store_id") REFERENCES "public"."scraped_stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraped_price_history" ADD CONSTRAINT "scraped_price_history_scraped_store_id_scraped_stores_id_fk" FOREIGN KEY ("scraped_store_id") REFERENCES "public"."scraped_stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraped_price_history" ADD CONSTRAINT "scraped_price_history_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraped_url_state" ADD CONSTRAINT "scraped_url_state_scraped_store_id_scraped_stores_id_fk" FOREIGN KEY ("scraped_store_id") REFERENCES "public"."scraped_stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scrapeRunStoreStartedIndex" ON "scrape_runs" USING btree ("scraped_store_id","started_at");--> statement-breakpoint
+CREATE INDEX "scrapeRunRunIdIndex" ON "scrape_runs" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "priceHistoryListingIndex" ON "scraped_price_history" USING btree ("scraped_store_id","product_url","recorded_at");--> statement-breakpoint
+CREATE INDEX "priceHistoryEanIndex" ON "scraped_price_history" USING btree ("ean");--> statement-breakpoint
+CREATE UNIQUE INDEX "uniqueScrapedUrlState" ON "scraped_url_state" USING btree ("scraped_store_id","url");--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD CONSTRAINT "scraped_product_listings_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scrapedListingRunIdIndex" ON "scraped_product_listings" USING btree ("scrape_run_id");--> statement-breakpoint
+CREATE INDEX "scrapedListingDiscountIndex" ON "scraped_product_listings" USING btree ("discount_percent");
\ No newline at end of file
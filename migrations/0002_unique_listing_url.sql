@@ -0,0 +1,23 @@
+-- Merge exact duplicate listings (store, product_url) before the unique index:
+-- keep the most recently written row, with created_at set to the first sighting.
+-- Adapter-specific URL normalization is left to `npm run dedupe-listings`.
+UPDATE "scraped_product_listings" AS l SET "created_at" = d."first_seen"
+FROM (
+	SELECT "scraped_store_id", "product_url", min("created_at") AS "first_seen"
+	FROM "scraped_product_listings"
+	WHERE "product_url" IS NOT NULL
+	GROUP BY "scraped_store_id", "product_url"
+	HAVING count(*) > 1
+) AS d
+WHERE l."scraped_store_id" = d."scraped_store_id" AND l."product_url" = d."product_url";--> statement-breakpoint
+DELETE FROM "scraped_product_listings" AS l
+USING (
+	SELECT "id", row_number() OVER (
+		PARTITION BY "scraped_store_id", "product_url"
+		ORDER BY coalesce("updated_at", "created_at") DESC NULLS LAST, "id" DESC
+	) AS "rank"
+	FROM "scraped_product_listings"
+	WHERE "product_url" IS NOT NULL
+) AS r
+WHERE l."id" = r."id" AND r."rank" > 1;--> statement-breakpoint
+CREATE UNIQUE INDEX "uniqueScrapedListingUrl" ON "scraped_product_listings" USING btree ("scraped_store_id","product_url");
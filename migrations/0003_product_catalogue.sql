@@ -0,0 +1,14 @@
+CREATE TABLE "scraped_products" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"gtin14" varchar(14) NOT NULL,
+	"name" varchar(2000),
+	"brand" varchar(1000),
+	"image_url" varchar(5000),
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "product_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "uniqueScrapedProductGtin14" ON "scraped_products" USING btree ("gtin14");--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD CONSTRAINT "scraped_product_listings_product_id_scraped_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."scraped_products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scrapedListingProductIdIndex" ON "scraped_product_listings" USING btree ("product_id");
\ No newline at end of file
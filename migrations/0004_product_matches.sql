@@ -0,0 +1,15 @@
+CREATE TABLE "scraped_product_matches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"listing_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"confidence" numeric(3, 2) NOT NULL,
+	"status" varchar(16) NOT NULL,
+	"reasons" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"reviewed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "scraped_product_matches" ADD CONSTRAINT "scraped_product_matches_listing_id_scraped_product_listings_id_fk" FOREIGN KEY ("listing_id") REFERENCES "public"."scraped_product_listings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraped_product_matches" ADD CONSTRAINT "scraped_product_matches_product_id_scraped_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."scraped_products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uniqueScrapedProductMatch" ON "scraped_product_matches" USING btree ("listing_id","product_id");--> statement-breakpoint
+CREATE INDEX "scrapedProductMatchStatusIndex" ON "scraped_product_matches" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "scraped_product_listings" ADD COLUMN "missed_runs" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "delisted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "delisted_reason" varchar(16);--> statement-breakpoint
+CREATE INDEX "scrapedListingDelistedAtIndex" ON "scraped_product_listings" USING btree ("delisted_at");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "scraped_stock_transitions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scraped_store_id" integer NOT NULL,
+	"product_url" varchar(5000) NOT NULL,
+	"ean" varchar(100),
+	"in_stock" boolean NOT NULL,
+	"previous_in_stock" boolean,
+	"scrape_run_id" integer,
+	"recorded_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ALTER COLUMN "in_stock" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "scrape_runs" ADD COLUMN "stock_changes" integer;--> statement-breakpoint
+ALTER TABLE "scraped_stock_transitions" ADD CONSTRAINT "scraped_stock_transitions_scraped_store_id_scraped_stores_id_fk" FOREIGN KEY ("scraped_store_id") REFERENCES "public"."scraped_stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraped_stock_transitions" ADD CONSTRAINT "scraped_stock_transitions_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "stockTransitionListingIndex" ON "scraped_stock_transitions" USING btree ("scraped_store_id","product_url","recorded_at");--> statement-breakpoint
+CREATE INDEX "stockTransitionRecordedAtIndex" ON "scraped_stock_transitions" USING btree ("recorded_at");--> statement-breakpoint
+-- tidigare blev okänd lagerstatus false; rådatan visar vad sidan faktiskt sa
+UPDATE "scraped_product_listings" SET "in_stock" = NULL WHERE "raw_data"->>'inStock' IS NULL;
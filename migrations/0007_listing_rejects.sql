@@ -0,0 +1,15 @@
+CREATE TABLE "scraped_listing_rejects" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scraped_store_id" integer NOT NULL,
+	"scrape_run_id" integer,
+	"product_url" varchar(5000) NOT NULL,
+	"field" varchar(64),
+	"message" text NOT NULL,
+	"raw_data" jsonb,
+	"rejected_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scraped_listing_rejects" ADD CONSTRAINT "scraped_listing_rejects_scraped_store_id_scraped_stores_id_fk" FOREIGN KEY ("scraped_store_id") REFERENCES "public"."scraped_stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraped_listing_rejects" ADD CONSTRAINT "scraped_listing_rejects_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "listingRejectStoreIndex" ON "scraped_listing_rejects" USING btree ("scraped_store_id","rejected_at");--> statement-breakpoint
+CREATE INDEX "listingRejectRunIndex" ON "scraped_listing_rejects" USING btree ("scrape_run_id");
\ No newline at end of file
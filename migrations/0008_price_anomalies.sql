@@ -0,0 +1,3 @@
+ALTER TABLE "scrape_runs" ADD COLUMN "price_flags" integer;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "suspect_price_minor" integer;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ADD COLUMN "price_flag" varchar(16);
\ No newline at end of file
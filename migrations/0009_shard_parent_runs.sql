@@ -0,0 +1,3 @@
+ALTER TABLE "scrape_runs" ADD COLUMN "parent_run_id" integer;--> statement-breakpoint
+ALTER TABLE "scrape_runs" ADD CONSTRAINT "scrape_runs_parent_run_id_scrape_runs_id_fk" FOREIGN KEY ("parent_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scrapeRunParentIndex" ON "scrape_runs" USING btree ("parent_run_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+DROP INDEX IF EXISTS "scrapedListingDiscountIndex";--> statement-breakpoint
+DROP INDEX IF EXISTS "scrapedListingRunIdIndex";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP CONSTRAINT IF EXISTS "scraped_product_listings_scrape_run_id_scrape_runs_id_fk";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "scrape_run_id";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "brand";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "discount_percent";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "original_price_minor";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "price_minor";--> statement-breakpoint
+DROP TABLE IF EXISTS "scraped_url_state";--> statement-breakpoint
+DROP TABLE IF EXISTS "scraped_price_history";--> statement-breakpoint
+DROP TABLE IF EXISTS "scrape_runs";
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS "scrapedListingProductIdIndex";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP CONSTRAINT IF EXISTS "scraped_product_listings_product_id_scraped_products_id_fk";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "product_id";--> statement-breakpoint
+DROP TABLE IF EXISTS "scraped_products";
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS "scrapedListingDelistedAtIndex";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "delisted_reason";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "delisted_at";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "missed_runs";
@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS "scraped_stock_transitions";--> statement-breakpoint
+ALTER TABLE "scrape_runs" DROP COLUMN IF EXISTS "stock_changes";--> statement-breakpoint
+UPDATE "scraped_product_listings" SET "in_stock" = false WHERE "in_stock" IS NULL;--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" ALTER COLUMN "in_stock" SET DEFAULT false;
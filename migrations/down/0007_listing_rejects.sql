@@ -0,0 +1 @@
+DROP TABLE IF EXISTS "scraped_listing_rejects";
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "price_flag";--> statement-breakpoint
+ALTER TABLE "scraped_product_listings" DROP COLUMN IF EXISTS "suspect_price_minor";--> statement-breakpoint
+ALTER TABLE "scrape_runs" DROP COLUMN IF EXISTS "price_flags";
\ No newline at end of file
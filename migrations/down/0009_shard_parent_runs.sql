@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS "scrapeRunParentIndex";--> statement-breakpoint
+ALTER TABLE "scrape_runs" DROP CONSTRAINT IF EXISTS "scrape_runs_parent_run_id_scrape_runs_id_fk";--> statement-breakpoint
+ALTER TABLE "scrape_runs" DROP COLUMN IF EXISTS "parent_run_id";
\ No newline at end of file
@@ -1,7 +1,7 @@
 import "dotenv/config";
 import http from "http";
 import { getSiteKeys, runImport } from "./core/services/import-service";
-import { Logger } from "./core/utils/logger";
+import { Logger, routeLogsToStderr } from "./core/utils/logger";
 
 async function main() {
   const argv = process.argv.slice(2);
@@ -12,10 +12,18 @@ async function main() {
     return i >= 0 ? argv[i + 1] : undefined;
   };
 
+  // --sink stdout: stdout carries only NDJSON, so logs go to stderr from the start
+  const selectedSinks = (getArg("--sink") ?? process.env.SINKS ?? "").split(
+    ",",
+  );
+  if (selectedSinks.some((s) => s.trim().toLowerCase() === "stdout")) {
+    routeLogsToStderr();
+  }
+
   if (hasFlag("--help")) {
     Logger.info(`Usage:
-node dist/cli.js --site <key> [--mode full|delta|refresh] [--limit N]
-node dist/cli.js --sites <key1,key2,key3> [--mode full|delta|refresh] [--limit N]
+node dist/cli.js --site <key> [--mode full|delta|refresh] [--limit N] [--run-id ID]
+node dist/cli.js --sites <key1,key2,key3> [--mode full|delta|refresh] [--limit N] [--run-id ID] [--parallel-sites N] [--sink LIST]
 
 CLI Mode - Bypass queue and run directly
 
@@ -24,11 +32,18 @@ Options:
   --sites    Multiple sites to run (comma-separated)
   --mode     Run mode (default: delta)
   --limit    Max products in run (default: 0 = no limit)
+  --run-id   Run ID; pass the ID of a crashed run to resume it (default: RUN_ID or new)
+  --parallel-sites  Number of sites to run at the same time (default: PARALLEL_SITES or 1)
+  --sink     Output sinks, comma-separated: postgres, sqlite, jsonl, csv, stdout (default: SINKS or postgres)
+             jsonl/csv write to OUT_DIR_BASE/<site>/<runId>.jsonl|.csv
   --list     List available sites
 
 Examples:
   npm run cli -- --site elgiganten --limit 10
   npm run cli -- --sites elgiganten,apotea,webhallen --limit 5
+  npm run cli -- --sites elgiganten,webhallen,inet --parallel-sites 3
+  npm run cli -- --site apoteket --run-id 20251019T021500-3f9a1c2e
+  npm run cli -- --site apotea --limit 20 --sink jsonl
 
 Available sites: ${getSiteKeys().join(", ")}
     
@@ -59,6 +74,23 @@ Note: For queue-based processing, use: npm start (uses dist/index.js)`);
     getArg("--limit") ?? (process.env.PRODUCTS_LIMIT || "0"),
   );
 
+  const runId = getArg("--run-id") || process.env.RUN_ID || undefined;
+
+  const parallelArg = getArg("--parallel-sites");
+  const parallelSites = parallelArg ? Number(parallelArg) : undefined;
+  if (
+    parallelSites !== undefined &&
+    (!Number.isInteger(parallelSites) || parallelSites < 1)
+  ) {
+    Logger.error(
+      `❌ --parallel-sites must be a positive integer (got "${parallelArg}")`,
+    );
+    process.exit(1);
+  }
+
+  const sinkArg = getArg("--sink");
+  const sinks = sinkArg ? sinkArg.split(",") : undefined;
+
   try {
     let siteKeys: string[] | undefined;
     if (sitesArg) {
@@ -74,6 +106,9 @@ Note: For queue-based processing, use: npm start (uses dist/index.js)`);
       siteKeys,
       runMode,
       productsLimit: limit,
+      runId,
+      parallelSites,
+      sinks,
     });
 
     const successCount = results.filter((r) => r.success).length;
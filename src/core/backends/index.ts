@@ -0,0 +1,33 @@
+/**
+ * Storage backends index
+ */
+
+import { AppConfig } from "../config/app-config";
+import { postgresBackend } from "./postgres";
+import { SqliteBackend } from "./sqlite";
+import type { StorageBackend } from "./types";
+
+export * from "./types";
+export * from "./postgres";
+export * from "./sqlite";
+
+export const STORAGE_BACKENDS = ["postgres", "sqlite"] as const;
+export type StorageBackendName = (typeof STORAGE_BACKENDS)[number];
+
+let sqlite: Promise<SqliteBackend> | null = null;
+
+/**
+ * The backend for a name; SQLite opens DB_PATH once per process (and only
+ * then loads better-sqlite3)
+ * @param name - "postgres" or "sqlite"
+ * @returns Shared backend instance
+ */
+export async function getStorageBackend(
+  name: StorageBackendName,
+): Promise<StorageBackend> {
+  if (name === "postgres") return postgresBackend;
+  return (sqlite ??= SqliteBackend.open(AppConfig.DB_PATH).catch((e) => {
+    sqlite = null;
+    throw e;
+  }));
+}
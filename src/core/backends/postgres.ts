@@ -0,0 +1,27 @@
+/**
+ * Postgres storage backend (Drizzle, DB_URL)
+ */
+
+import {
+  finishScrapeRun,
+  loadCrawlState,
+  markListingsGone,
+  markUrlsCrawled,
+  recordListingRejects,
+  reconcileDiscoveredListings,
+  startScrapeRun,
+  writeListingBatch,
+} from "../storage";
+import type { StorageBackend } from "./types";
+
+export const postgresBackend: StorageBackend = {
+  name: "postgres",
+  writeListings: writeListingBatch,
+  loadCrawlState,
+  markUrlsCrawled,
+  startScrapeRun,
+  finishScrapeRun,
+  reconcileDiscoveredListings,
+  markListingsGone,
+  recordListingRejects,
+};
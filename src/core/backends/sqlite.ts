@@ -0,0 +1,789 @@
+/**
+ * SQLite storage backend (better-sqlite3, DB_PATH)
+ *
+ * Same operations as the Postgres backend for local and CI runs without a
+ * database server. The schema is created on open and versioned with
+ * PRAGMA user_version; the catalogue and matching tables are Postgres-only.
+ * better-sqlite3 is a native module and only loaded when a SQLite backend
+ * is opened, so Postgres-only deployments never need it.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type Database from "better-sqlite3";
+import { DB_CONSTANTS } from "../constants/index";
+import { diffProduct } from "../product/ean";
+import {
+  checkPrice,
+  priceAnomalyRatio,
+  storedPrices,
+  trustedPrices,
+  type PriceState,
+} from "../product/price-anomaly";
+import {
+  priceHistoryFields,
+  type CrawlStateEntry,
+  type DelistReason,
+  type DelistingStats,
+  type ListingReject,
+  type ListingWriteStats,
+  type ScrapedListingInput,
+  type ScrapeRunSummary,
+} from "../storage";
+import type { Product } from "../types/product";
+import { toMinorUnits } from "../utils/price";
+import sanitizeEan from "../utils/sanitizeEan";
+import type { StorageBackend, StoreRef } from "./types";
+
+const SCHEMA_VERSION = 4;
+// håller oss under SQLites gräns för bundna parametrar
+const IN_CHUNK = 500;
+
+const SCHEMA = `
+  create table if not exists scraped_stores (
+    id integer primary key,
+    name text not null,
+    domain text not null unique,
+    created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+  create table if not exists scrape_runs (
+    id integer primary key,
+    run_id text not null,
+    job_id text,
+    parent_run_id integer references scrape_runs(id),
+    scraped_store_id integer not null references scraped_stores(id),
+    run_mode text not null,
+    status text not null default 'running',
+    started_at text not null,
+    finished_at text,
+    discovered integer,
+    planned integer,
+    visited integer,
+    ok integer,
+    fails integer,
+    wrote integer,
+    inserted integer,
+    updated integer,
+    skipped integer,
+    write_failed integer,
+    price_changes integer,
+    stock_changes integer,
+    price_flags integer,
+    via_fastpath integer,
+    via_browser integer,
+    phase_durations_ms text,
+    error_breakdown text,
+    error text,
+    updated_at text
+  );
+  create table if not exists scraped_product_listings (
+    id integer primary key,
+    product_name text not null,
+    ean text,
+    price integer,
+    price_minor integer,
+    original_price_minor integer,
+    discount_percent real,
+    suspect_price_minor integer,
+    price_flag text,
+    brand text,
+    currency text,
+    in_stock integer,
+    product_url text not null,
+    image_url text,
+    scraped_store_id integer not null references scraped_stores(id),
+    scrape_run_id integer references scrape_runs(id),
+    raw_data text not null,
+    missed_runs integer not null default 0,
+    delisted_at text,
+    delisted_reason text,
+    created_at text not null,
+    updated_at text,
+    unique (scraped_store_id, product_url)
+  );
+  create table if not exists scraped_price_history (
+    id integer primary key,
+    scraped_store_id integer not null references scraped_stores(id),
+    product_url text not null,
+    ean text,
+    price_minor integer,
+    original_price_minor integer,
+    currency text,
+    in_stock integer,
+    changed_fields text not null,
+    scrape_run_id integer references scrape_runs(id),
+    recorded_at text not null
+  );
+  create index if not exists price_history_listing
+    on scraped_price_history (scraped_store_id, product_url, id);
+  create table if not exists scraped_stock_transitions (
+    id integer primary key,
+    scraped_store_id integer not null references scraped_stores(id),
+    product_url text not null,
+    ean text,
+    in_stock integer not null,
+    previous_in_stock integer,
+    scrape_run_id integer references scrape_runs(id),
+    recorded_at text not null
+  );
+  create index if not exists stock_transition_listing
+    on scraped_stock_transitions (scraped_store_id, product_url, id);
+  create table if not exists scraped_listing_rejects (
+    id integer primary key,
+    scraped_store_id integer not null references scraped_stores(id),
+    scrape_run_id integer references scrape_runs(id),
+    product_url text not null,
+    field text,
+    message text not null,
+    raw_data text,
+    rejected_at text not null
+  );
+  create index if not exists listing_reject_store
+    on scraped_listing_rejects (scraped_store_id, rejected_at);
+  create table if not exists scraped_url_state (
+    id integer primary key,
+    scraped_store_id integer not null references scraped_stores(id),
+    url text not null,
+    lastmod text,
+    last_crawled_at text not null,
+    updated_at text,
+    unique (scraped_store_id, url)
+  );
+`;
+
+// SCHEMA skapar nya tabeller ("if not exists"); kolumner som lagts till i
+// befintliga tabeller kräver en ALTER för filer från en äldre version
+const UPGRADES: Record<number, string> = {
+  3: `
+    alter table scrape_runs add column price_flags integer;
+    alter table scraped_product_listings add column suspect_price_minor integer;
+    alter table scraped_product_listings add column price_flag text;
+  `,
+  4: `
+    alter table scrape_runs add column parent_run_id integer references scrape_runs(id);
+  `,
+};
+
+const toBool = (v: number | null): boolean | null => (v === null ? null : !!v);
+const fromBool = (v: boolean | null | undefined): number | null =>
+  v === null || v === undefined ? null : v ? 1 : 0;
+
+function chunks<T>(items: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+const placeholders = (n: number) => Array(n).fill("?").join(",");
+
+export class SqliteBackend implements StorageBackend {
+  readonly name = "sqlite";
+  private readonly db: Database.Database;
+  private readonly storeIds = new Map<string, number>();
+
+  /**
+   * Opens (and if needed creates) the database file
+   * @param filePath - SQLite file, e.g. state/data.sqlite
+   * @returns Backend with its schema up to date
+   * @throws Error when better-sqlite3 is not installed
+   */
+  static async open(filePath: string): Promise<SqliteBackend> {
+    let driver: typeof Database;
+    try {
+      driver = (await import("better-sqlite3")).default;
+    } catch (e: any) {
+      throw new Error(
+        `The sqlite sink needs better-sqlite3 (npm install better-sqlite3): ${e?.message || e}`,
+      );
+    }
+    return new SqliteBackend(filePath, driver);
+  }
+
+  private constructor(
+    readonly filePath: string,
+    driver: typeof Database,
+  ) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new driver(filePath);
+    this.db.pragma(`journal_mode = ${DB_CONSTANTS.JOURNAL_MODE}`);
+    this.db.pragma(`synchronous = ${DB_CONSTANTS.SYNCHRONOUS}`);
+    this.db.pragma(`cache_size = ${DB_CONSTANTS.CACHE_SIZE}`);
+    this.db.pragma(`mmap_size = ${DB_CONSTANTS.MMAP_SIZE}`);
+    this.db.pragma("foreign_keys = ON");
+
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `SQLite database ${filePath} has schema version ${version}; this build supports ${SCHEMA_VERSION}`,
+      );
+    }
+    if (version < SCHEMA_VERSION) {
+      this.db.transaction(() => {
+        this.db.exec(SCHEMA);
+        for (let v = version + 1; version > 0 && v <= SCHEMA_VERSION; v++) {
+          if (UPGRADES[v]) this.db.exec(UPGRADES[v]);
+        }
+        this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+      })();
+    }
+  }
+
+  /** scraped_stores.id for a store, created on first use */
+  private storeId(store: StoreRef): number {
+    const domain = store.domain.replace(/^www\./i, "").toLowerCase();
+    let id = this.storeIds.get(domain);
+    if (id === undefined) {
+      this.db
+        .prepare(
+          "insert into scraped_stores (name, domain) values (?, ?) on conflict (domain) do nothing",
+        )
+        .run(store.name, domain);
+      id = (
+        this.db
+          .prepare("select id from scraped_stores where domain = ?")
+          .get(domain) as { id: number }
+      ).id;
+      this.storeIds.set(domain, id);
+    }
+    return id;
+  }
+
+  async writeListings(
+    listings: ScrapedListingInput[],
+    options: { scrapeRunId?: number | null; history: boolean },
+  ): Promise<ListingWriteStats> {
+    return this.db.transaction(() => {
+      const screened = this.screenPrices(listings);
+      const stats = this.upsertListings(screened, options.scrapeRunId);
+      stats.priceFlags = screened.filter((l) => l.priceCheck?.flag).length;
+      if (options.history) {
+        stats.priceChanges = this.insertPriceChanges(
+          screened,
+          options.scrapeRunId,
+        );
+        stats.stockChanges = this.insertStockTransitions(
+          screened,
+          options.scrapeRunId,
+        );
+      }
+      return stats;
+    })();
+  }
+
+  private upsertListings(
+    listings: ScrapedListingInput[],
+    scrapeRunId?: number | null,
+  ): ListingWriteStats {
+    const stats: ListingWriteStats = { inserted: 0, updated: 0, skipped: 0 };
+    const now = new Date().toISOString();
+
+    // samma nyckel två gånger i en batch – sista vinner (som i Postgres)
+    const byKey = new Map<string, Record<string, unknown>>();
+    for (const l of listings) {
+      if (!l.productUrl) {
+        stats.skipped++;
+        continue;
+      }
+      const storeId = this.storeId(l.store);
+      const key = `${storeId}|${l.productUrl}`;
+      if (byKey.has(key)) stats.skipped++;
+      const rawEan = l.ean ?? l.rawData?.ean ?? null;
+      byKey.set(key, {
+        productName: l.productName,
+        ean: rawEan ? sanitizeEan(rawEan) : null,
+        ...storedPrices(l.price, l.originalPrice, l.priceCheck),
+        brand: l.brand?.trim() || null,
+        currency: l.currency,
+        inStock: fromBool(l.inStock),
+        productUrl: l.productUrl,
+        imageUrl: l.imageUrl || null,
+        storeId,
+        scrapeRunId: scrapeRunId ?? null,
+        rawData: JSON.stringify(l.rawData ?? {}),
+        now,
+      });
+    }
+
+    const exists = this.db.prepare(
+      "select 1 from scraped_product_listings where scraped_store_id = ? and product_url = ?",
+    );
+    const upsert = this.db.prepare(`
+      insert into scraped_product_listings (
+        product_name, ean, price, price_minor, original_price_minor,
+        discount_percent, suspect_price_minor, price_flag, brand, currency,
+        in_stock, product_url, image_url, scraped_store_id, scrape_run_id,
+        raw_data, created_at, updated_at
+      ) values (
+        @productName, @ean, @price, @priceMinor, @originalPriceMinor,
+        @discountPercent, @suspectPriceMinor, @priceFlag, @brand, @currency,
+        @inStock, @productUrl, @imageUrl, @storeId, @scrapeRunId,
+        @rawData, @now, @now
+      )
+      on conflict (scraped_store_id, product_url) do update set
+        product_name = excluded.product_name,
+        ean = coalesce(excluded.ean, ean),
+        price = excluded.price,
+        price_minor = excluded.price_minor,
+        original_price_minor = excluded.original_price_minor,
+        discount_percent = excluded.discount_percent,
+        suspect_price_minor = excluded.suspect_price_minor,
+        price_flag = excluded.price_flag,
+        brand = coalesce(excluded.brand, brand),
+        currency = excluded.currency,
+        in_stock = excluded.in_stock,
+        image_url = excluded.image_url,
+        scrape_run_id = excluded.scrape_run_id,
+        raw_data = excluded.raw_data,
+        missed_runs = 0,
+        delisted_at = null,
+        delisted_reason = null,
+        updated_at = excluded.updated_at
+    `);
+    for (const row of byKey.values()) {
+      const existed = exists.get(row.storeId, row.productUrl);
+      upsert.run(row);
+      if (existed) stats.updated++;
+      else stats.inserted++;
+    }
+    return stats;
+  }
+
+  private screenPrices(
+    listings: ScrapedListingInput[],
+  ): ScrapedListingInput[] {
+    const ratio = priceAnomalyRatio();
+    if (ratio <= 0 || listings.length === 0) return listings;
+
+    const stateByKey = new Map<string, PriceState>();
+    for (const [storeId, group] of this.groupByStore(listings)) {
+      for (const urls of chunks([...new Set(group.map((l) => l.productUrl))])) {
+        const rows = this.db
+          .prepare(
+            `select product_url, price_minor, original_price_minor, suspect_price_minor
+             from scraped_product_listings
+             where scraped_store_id = ? and product_url in (${placeholders(urls.length)})`,
+          )
+          .all(storeId, ...urls) as Array<{
+          product_url: string;
+          price_minor: number | null;
+          original_price_minor: number | null;
+          suspect_price_minor: number | null;
+        }>;
+        for (const r of rows) {
+          stateByKey.set(`${storeId}|${r.product_url}`, {
+            priceMinor: r.price_minor,
+            originalPriceMinor: r.original_price_minor,
+            suspectPriceMinor: r.suspect_price_minor,
+          });
+        }
+      }
+    }
+
+    return listings.map((l) => ({
+      ...l,
+      priceCheck: checkPrice(
+        {
+          priceMinor: toMinorUnits(l.price),
+          originalPriceMinor: toMinorUnits(l.originalPrice),
+        },
+        stateByKey.get(`${this.storeId(l.store)}|${l.productUrl}`) ?? null,
+        ratio,
+      ),
+    }));
+  }
+
+  private insertPriceChanges(
+    listings: ScrapedListingInput[],
+    scrapeRunId?: number | null,
+  ): number {
+    const fields = priceHistoryFields();
+    if (fields.length === 0 || listings.length === 0) return 0;
+    const now = new Date().toISOString();
+
+    const rows: unknown[][] = [];
+    for (const [storeId, group] of this.groupByStore(listings)) {
+      const prevByUrl = new Map<string, Partial<Product>>();
+      for (const urls of chunks([...new Set(group.map((l) => l.productUrl))])) {
+        const latest = this.db
+          .prepare(
+            `select product_url, price_minor, original_price_minor, currency, in_stock
+             from scraped_price_history
+             where id in (
+               select max(id) from scraped_price_history
+               where scraped_store_id = ? and product_url in (${placeholders(urls.length)})
+               group by product_url
+             )`,
+          )
+          .all(storeId, ...urls) as Array<{
+          product_url: string;
+          price_minor: number | null;
+          original_price_minor: number | null;
+          currency: string | null;
+          in_stock: number | null;
+        }>;
+        for (const r of latest) {
+          prevByUrl.set(r.product_url, {
+            price: r.price_minor,
+            originalPrice: r.original_price_minor,
+            currency: r.currency,
+            inStock: toBool(r.in_stock),
+          });
+        }
+      }
+
+      for (const l of group) {
+        // ett flaggat pris hålls utanför historiken: raden bär senast betrodda
+        // priser så att lager/valuta ändå loggas
+        const prev = prevByUrl.get(l.productUrl);
+        const prices = trustedPrices(
+          l.price,
+          l.originalPrice,
+          l.priceCheck,
+          prev && {
+            priceMinor: prev.price ?? null,
+            originalPriceMinor: prev.originalPrice ?? null,
+          },
+        );
+        if (!prices) continue;
+        const current: Partial<Product> = {
+          price: prices.priceMinor,
+          originalPrice: prices.originalPriceMinor,
+          currency: l.currency || null,
+          inStock: l.inStock,
+        };
+        const changed = prev
+          ? Object.keys(diffProduct(prev, current, fields, false))
+          : fields;
+        if (changed.length === 0) continue;
+
+        const rawEan = l.ean ?? l.rawData?.ean ?? null;
+        rows.push([
+          storeId,
+          l.productUrl,
+          rawEan ? sanitizeEan(rawEan) : null,
+          current.price,
+          current.originalPrice,
+          current.currency,
+          fromBool(current.inStock),
+          JSON.stringify(changed),
+          scrapeRunId ?? null,
+          now,
+        ]);
+        prevByUrl.set(l.productUrl, current);
+      }
+    }
+
+    const insert = this.db.prepare(
+      `insert into scraped_price_history (
+         scraped_store_id, product_url, ean, price_minor, original_price_minor,
+         currency, in_stock, changed_fields, scrape_run_id, recorded_at
+       ) values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    for (const r of rows) insert.run(r);
+    return rows.length;
+  }
+
+  private insertStockTransitions(
+    listings: ScrapedListingInput[],
+    scrapeRunId?: number | null,
+  ): number {
+    const known = listings.filter((l) => l.inStock !== null);
+    if (known.length === 0) return 0;
+    const now = new Date().toISOString();
+
+    const rows: unknown[][] = [];
+    for (const [storeId, group] of this.groupByStore(known)) {
+      const prevByUrl = new Map<string, boolean>();
+      for (const urls of chunks([...new Set(group.map((l) => l.productUrl))])) {
+        const latest = this.db
+          .prepare(
+            `select product_url, in_stock from scraped_stock_transitions
+             where id in (
+               select max(id) from scraped_stock_transitions
+               where scraped_store_id = ? and product_url in (${placeholders(urls.length)})
+               group by product_url
+             )`,
+          )
+          .all(storeId, ...urls) as Array<{ product_url: string; in_stock: number }>;
+        for (const r of latest) prevByUrl.set(r.product_url, !!r.in_stock);
+      }
+
+      for (const l of group) {
+        const prev = prevByUrl.get(l.productUrl);
+        if (prev === l.inStock) continue;
+        const rawEan = l.ean ?? l.rawData?.ean ?? null;
+        rows.push([
+          storeId,
+          l.productUrl,
+          rawEan ? sanitizeEan(rawEan) : null,
+          fromBool(l.inStock),
+          fromBool(prev),
+          scrapeRunId ?? null,
+          now,
+        ]);
+        prevByUrl.set(l.productUrl, l.inStock!);
+      }
+    }
+
+    const insert = this.db.prepare(
+      `insert into scraped_stock_transitions (
+         scraped_store_id, product_url, ean, in_stock, previous_in_stock,
+         scrape_run_id, recorded_at
+       ) values (?, ?, ?, ?, ?, ?, ?)`,
+    );
+    for (const r of rows) insert.run(r);
+    return rows.length;
+  }
+
+  async loadCrawlState(
+    store: StoreRef,
+  ): Promise<Map<string, CrawlStateEntry>> {
+    const rows = this.db
+      .prepare(
+        "select url, lastmod, last_crawled_at from scraped_url_state where scraped_store_id = ?",
+      )
+      .all(this.storeId(store)) as Array<{
+      url: string;
+      lastmod: string | null;
+      last_crawled_at: string;
+    }>;
+    return new Map(
+      rows.map((r) => [
+        r.url,
+        {
+          lastmod: r.lastmod ? new Date(r.lastmod) : null,
+          lastCrawledAt: new Date(r.last_crawled_at),
+        },
+      ]),
+    );
+  }
+
+  async markUrlsCrawled(
+    store: StoreRef,
+    entries: Array<{ url: string; lastmod?: string | null }>,
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    const storeId = this.storeId(store);
+    const now = new Date().toISOString();
+    const upsert = this.db.prepare(
+      `insert into scraped_url_state (scraped_store_id, url, lastmod, last_crawled_at)
+       values (?, ?, ?, ?)
+       on conflict (scraped_store_id, url) do update set
+         lastmod = coalesce(excluded.lastmod, lastmod),
+         last_crawled_at = excluded.last_crawled_at,
+         updated_at = excluded.last_crawled_at`,
+    );
+    this.db.transaction(() => {
+      for (const e of entries) {
+        const ts = e.lastmod ? Date.parse(e.lastmod) : NaN;
+        const lastmod = Number.isFinite(ts) ? new Date(ts).toISOString() : null;
+        upsert.run(storeId, e.url, lastmod, now);
+      }
+    })();
+  }
+
+  async startScrapeRun(run: {
+    store: StoreRef;
+    runId: string;
+    jobId?: string | null;
+    parentRunId?: number | null;
+    runMode: string;
+    startedAt: Date;
+  }): Promise<number> {
+    const res = this.db
+      .prepare(
+        "insert into scrape_runs (run_id, job_id, parent_run_id, scraped_store_id, run_mode, started_at) values (?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        run.runId,
+        run.jobId ?? null,
+        run.parentRunId ?? null,
+        this.storeId(run.store),
+        run.runMode,
+        run.startedAt.toISOString(),
+      );
+    return Number(res.lastInsertRowid);
+  }
+
+  async finishScrapeRun(id: number, summary: ScrapeRunSummary): Promise<void> {
+    this.db
+      .prepare(
+        `update scrape_runs set
+           status = @status, finished_at = @finishedAt, discovered = @discovered,
+           planned = @planned, visited = @visited, ok = @ok, fails = @fails,
+           wrote = @wrote, inserted = @inserted, updated = @updated,
+           skipped = @skipped, write_failed = @writeFailed,
+           price_changes = @priceChanges, stock_changes = @stockChanges,
+           price_flags = @priceFlags,
+           via_fastpath = @viaFastpath, via_browser = @viaBrowser,
+           phase_durations_ms = @phaseDurationsMs,
+           error_breakdown = @errorBreakdown, error = @error,
+           updated_at = @updatedAt
+         where id = @id`,
+      )
+      .run({
+        id,
+        status: summary.status,
+        finishedAt: new Date(summary.finishedAt).toISOString(),
+        discovered: summary.discovered,
+        planned: summary.planned,
+        visited: summary.visited,
+        ok: summary.ok,
+        fails: summary.fails,
+        wrote: summary.wrote,
+        inserted: summary.inserted,
+        updated: summary.updated,
+        skipped: summary.skipped,
+        writeFailed: summary.writeFailed,
+        priceChanges: summary.priceChanges,
+        stockChanges: summary.stockChanges,
+        priceFlags: summary.priceFlags,
+        viaFastpath: summary.viaFastpath,
+        viaBrowser: summary.viaBrowser,
+        phaseDurationsMs: JSON.stringify(summary.phaseDurationsMs),
+        errorBreakdown: JSON.stringify(summary.errorBreakdown),
+        error: summary.error ?? null,
+        updatedAt: new Date().toISOString(),
+      });
+  }
+
+  async reconcileDiscoveredListings(
+    store: StoreRef,
+    discoveredUrls: string[],
+    options: { afterRuns: number; minCoverage: number },
+  ): Promise<DelistingStats | null> {
+    const rows = this.db
+      .prepare(
+        "select id, product_url, missed_runs, delisted_at, delisted_reason from scraped_product_listings where scraped_store_id = ?",
+      )
+      .all(this.storeId(store)) as Array<{
+      id: number;
+      product_url: string;
+      missed_runs: number;
+      delisted_at: string | null;
+      delisted_reason: string | null;
+    }>;
+
+    const present = new Set(discoveredUrls);
+    const stats: DelistingStats = {
+      live: 0,
+      missing: 0,
+      delisted: 0,
+      revived: 0,
+    };
+    const seenIds: number[] = [];
+    const missingIds: number[] = [];
+    let liveSeen = 0;
+    for (const r of rows) {
+      const seen = present.has(r.product_url);
+      if (!r.delisted_at) {
+        stats.live++;
+        if (seen) liveSeen++;
+      }
+      if (seen) {
+        const revive = !!r.delisted_at && r.delisted_reason === "sitemap";
+        if (revive) stats.revived++;
+        if (revive || r.missed_runs > 0) seenIds.push(r.id);
+      } else {
+        stats.missing++;
+        missingIds.push(r.id);
+        if (!r.delisted_at && r.missed_runs + 1 >= options.afterRuns) {
+          stats.delisted++;
+        }
+      }
+    }
+    if (stats.live > 0 && liveSeen / stats.live < options.minCoverage) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const reset = this.db.prepare(
+      `update scraped_product_listings set
+         missed_runs = 0,
+         delisted_at = case when delisted_reason = 'sitemap' then null else delisted_at end,
+         delisted_reason = case when delisted_reason = 'sitemap' then null else delisted_reason end
+       where id = ?`,
+    );
+    // SET-uttrycken ser radens gamla värden, precis som i Postgres
+    const miss = this.db.prepare(
+      `update scraped_product_listings set
+         missed_runs = missed_runs + 1,
+         delisted_at = case when delisted_at is null and missed_runs + 1 >= @afterRuns then @now else delisted_at end,
+         delisted_reason = case when delisted_at is null and missed_runs + 1 >= @afterRuns then 'sitemap' else delisted_reason end
+       where id = @id`,
+    );
+    this.db.transaction(() => {
+      for (const id of seenIds) reset.run(id);
+      for (const id of missingIds) {
+        miss.run({ id, now, afterRuns: options.afterRuns });
+      }
+    })();
+    return stats;
+  }
+
+  async markListingsGone(
+    store: StoreRef,
+    gone: Array<{ url: string; reason: Exclude<DelistReason, "sitemap"> }>,
+  ): Promise<number> {
+    if (gone.length === 0) return 0;
+    const storeId = this.storeId(store);
+    const now = new Date().toISOString();
+    const mark = this.db.prepare(
+      `update scraped_product_listings set delisted_at = ?, delisted_reason = ?
+       where scraped_store_id = ? and product_url = ? and delisted_at is null`,
+    );
+    let delisted = 0;
+    this.db.transaction(() => {
+      for (const g of gone) {
+        delisted += mark.run(now, g.reason, storeId, g.url).changes;
+      }
+    })();
+    return delisted;
+  }
+
+  async recordListingRejects(
+    store: StoreRef,
+    rejects: ListingReject[],
+    scrapeRunId?: number | null,
+  ): Promise<number> {
+    if (rejects.length === 0) return 0;
+    const storeId = this.storeId(store);
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(
+      `insert into scraped_listing_rejects
+         (scraped_store_id, scrape_run_id, product_url, field, message, raw_data, rejected_at)
+       values (?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.db.transaction(() => {
+      for (const r of rejects) {
+        insert.run(
+          storeId,
+          scrapeRunId ?? null,
+          r.url,
+          r.field,
+          r.message,
+          r.rawData === undefined ? null : JSON.stringify(r.rawData),
+          now,
+        );
+      }
+    })();
+    return rejects.length;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private groupByStore(
+    listings: ScrapedListingInput[],
+  ): Map<number, ScrapedListingInput[]> {
+    const out = new Map<number, ScrapedListingInput[]>();
+    for (const l of listings) {
+      const storeId = this.storeId(l.store);
+      const group = out.get(storeId) ?? [];
+      group.push(l);
+      out.set(storeId, group);
+    }
+    return out;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Storage backend types
+ */
+
+import type {
+  CrawlStateEntry,
+  DelistReason,
+  DelistingStats,
+  ListingReject,
+  ListingWriteStats,
+  ScrapedListingInput,
+  ScrapeRunSummary,
+} from "../storage";
+
+/** Store as the runner knows it (name = site key, domain = host) */
+export interface StoreRef {
+  name: string;
+  domain: string;
+}
+
+/**
+ * The database operations a scrape run needs: listings, run log, price/stock
+ * history, crawl state, delisting and validation rejects. Postgres is the production backend;
+ * SQLite runs the same cycle locally without a server.
+ */
+export interface StorageBackend {
+  /** Short name used in logs and sink names, e.g. "postgres" */
+  readonly name: string;
+  /**
+   * Screens prices and upserts a batch of listings together with their price
+   * history and stock transitions, in one transaction
+   */
+  writeListings(
+    listings: ScrapedListingInput[],
+    options: { scrapeRunId?: number | null; history: boolean },
+  ): Promise<ListingWriteStats>;
+  loadCrawlState(store: StoreRef): Promise<Map<string, CrawlStateEntry>>;
+  markUrlsCrawled(
+    store: StoreRef,
+    entries: Array<{ url: string; lastmod?: string | null }>,
+  ): Promise<void>;
+  startScrapeRun(run: {
+    store: StoreRef;
+    runId: string;
+    jobId?: string | null;
+    /** scrape_runs row of the sharded parent run (set for shards) */
+    parentRunId?: number | null;
+    runMode: string;
+    startedAt: Date;
+  }): Promise<number>;
+  finishScrapeRun(id: number, summary: ScrapeRunSummary): Promise<void>;
+  reconcileDiscoveredListings(
+    store: StoreRef,
+    discoveredUrls: string[],
+    options: { afterRuns: number; minCoverage: number },
+  ): Promise<DelistingStats | null>;
+  markListingsGone(
+    store: StoreRef,
+    gone: Array<{ url: string; reason: Exclude<DelistReason, "sitemap"> }>,
+  ): Promise<number>;
+  recordListingRejects(
+    store: StoreRef,
+    rejects: ListingReject[],
+    scrapeRunId?: number | null,
+  ): Promise<number>;
+  close?(): Promise<void>;
+}
@@ -0,0 +1,65 @@
+/**
+ * Per-site browser contexts with persisted consent state
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { Browser, BrowserContext } from "playwright";
+import { envStr } from "../config/env";
+import type { SiteAdapter } from "../types/index";
+import { optimizeContext } from "./optimization";
+
+/**
+ * Resolves the storageState file for a site (STORAGE_STATE_PATH, `{site}` placeholder)
+ * @param siteKey - Site key
+ * @returns Path to the state file
+ */
+export function storageStatePath(siteKey: string): string {
+  return envStr("STORAGE_STATE_PATH", "storage/{site}-state.json").replace(
+    /\{site\}/g,
+    siteKey,
+  );
+}
+
+/**
+ * Creates the site's browser context: restores saved cookies/localStorage,
+ * blocks heavy resources and runs the adapter's `setupContext` once
+ * @param browser - Browser instance
+ * @param adapter - Site adapter configuration
+ * @returns Ready-to-use context
+ */
+export async function createSiteContext(
+  browser: Browser,
+  adapter: SiteAdapter,
+): Promise<BrowserContext> {
+  const statePath = storageStatePath(adapter.key);
+  let context: BrowserContext;
+  try {
+    context = await browser.newContext({
+      storageState: fs.existsSync(statePath) ? statePath : undefined,
+    });
+  } catch (e: any) {
+    // trasig/inaktuell state-fil – börja om utan
+    console.warn(
+      `[warn] ignoring storage state ${statePath}: ${e?.message || e}`,
+    );
+    context = await browser.newContext();
+  }
+  await optimizeContext(context);
+  if (adapter.setupContext) await adapter.setupContext(context);
+  return context;
+}
+
+/**
+ * Persists the context's cookies/localStorage so the next run skips the consent banner
+ * @param context - Browser context
+ * @param siteKey - Site key
+ */
+export async function saveStorageState(
+  context: BrowserContext,
+  siteKey: string,
+): Promise<void> {
+  const statePath = storageStatePath(siteKey);
+  await fs.promises.mkdir(path.dirname(statePath), { recursive: true });
+  await context.storageState({ path: statePath });
+}
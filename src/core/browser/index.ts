@@ -4,3 +4,5 @@
 
 export * from "./launcher";
 export * from "./optimization";
+export * from "./context";
+export * from "./page-pool";
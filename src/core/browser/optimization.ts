@@ -2,7 +2,13 @@
  * Browser optimization utilities
  */
 
-import type { Page } from "playwright";
+import type { BrowserContext, Page, Route } from "playwright";
+
+const blockHeavy = (route: Route) => {
+  const t = route.request().resourceType();
+  if (t === "image" || t === "font" || t === "stylesheet") return route.abort();
+  return route.continue();
+};
 
 /**
  * Optimizes a page by blocking heavy resources (images, fonts, stylesheets)
@@ -12,12 +18,16 @@ import type { Page } from "playwright";
 export async function optimizePage(page: Page): Promise<void> {
   // block heavy resources
   try {
-    await page.route("**/*", (route) => {
-      const t = route.request().resourceType();
-      if (t === "image" || t === "font" || t === "stylesheet")
-        return route.abort();
-      route.continue();
-      return;
-    });
+    await page.route("**/*", blockHeavy);
+  } catch {}
+}
+
+/**
+ * Same resource blocking as `optimizePage`, registered once for a whole context
+ * @param context - Playwright browser context to optimize
+ */
+export async function optimizeContext(context: BrowserContext): Promise<void> {
+  try {
+    await context.route("**/*", blockHeavy);
   } catch {}
 }
@@ -0,0 +1,140 @@
+/**
+ * Reusable page pool for a browser context
+ */
+
+import type { BrowserContext, Page } from "playwright";
+import { envInt } from "../config/env";
+import { Semaphore } from "../utils/semaphore";
+
+/**
+ * Process-wide cap on open browser pages across all sites (MAX_BROWSER_PAGES),
+ * so parallel site runs keep memory bounded
+ */
+const pageSlots = new Semaphore(envInt("MAX_BROWSER_PAGES", 8));
+
+/** Current cap on open browser pages in this process */
+export function maxBrowserPages(): number {
+  return pageSlots.limit;
+}
+
+/**
+ * Changes this process's page cap, e.g. to the share a shard was given
+ * @param n - New cap (min 1)
+ */
+export function setMaxBrowserPages(n: number): void {
+  pageSlots.setLimit(n);
+}
+
+/**
+ * Holds page slots for pages opened elsewhere (a shard's child process or
+ * worker thread), so they count against this process's cap
+ * @param count - Slots to hold (clamped to the cap)
+ * @returns Release function for all held slots
+ */
+export async function reservePageSlots(count: number): Promise<() => void> {
+  const releases: Array<() => void> = [];
+  const n = Math.max(0, Math.min(count, pageSlots.limit));
+  for (let i = 0; i < n; i++) releases.push(await pageSlots.acquire());
+  return () => releases.forEach((release) => release());
+}
+
+export interface PagePoolOptions {
+  /** Close and replace a page after this many uses (default env PAGE_MAX_USES or 50) */
+  maxUses?: number;
+  /** Runs once for every newly created page (e.g. navigation throttling) */
+  setupPage?: (page: Page) => void | Promise<void>;
+}
+
+/**
+ * Hands out pages from one context and takes them back after use.
+ * Pages are recycled after `maxUses` navigations to keep memory in check;
+ * a page released as broken is closed immediately. Every open page holds a
+ * slot of the global page cap until it is closed.
+ */
+export class PagePool {
+  private readonly idle: Page[] = [];
+  private readonly uses = new WeakMap<Page, number>();
+  private readonly slots = new Map<Page, () => void>();
+  private readonly maxUses: number;
+  private closed = false;
+
+  constructor(
+    readonly context: BrowserContext,
+    private readonly options: PagePoolOptions = {},
+  ) {
+    this.maxUses = Math.max(
+      1,
+      options.maxUses ?? envInt("PAGE_MAX_USES", 50),
+    );
+  }
+
+  /**
+   * Get an idle page or open a new one
+   * @returns Page ready for navigation
+   */
+  async acquire(): Promise<Page> {
+    if (this.closed) throw new Error("PagePool is closed");
+    while (this.idle.length > 0) {
+      const page = this.idle.pop()!;
+      if (!page.isClosed()) return page;
+      this.freeSlot(page);
+    }
+    const releaseSlot = await pageSlots.acquire();
+    let page: Page;
+    try {
+      page = await this.context.newPage();
+    } catch (e) {
+      releaseSlot();
+      throw e;
+    }
+    this.slots.set(page, releaseSlot);
+    this.uses.set(page, 0);
+    if (this.options.setupPage) await this.options.setupPage(page);
+    return page;
+  }
+
+  /**
+   * Return a page to the pool
+   * @param page - Page from `acquire`
+   * @param broken - Close the page instead of reusing it (e.g. after a navigation error)
+   */
+  async release(page: Page, broken = false): Promise<void> {
+    const used = (this.uses.get(page) ?? 0) + 1;
+    this.uses.set(page, used);
+    // andra sajter väntar på en sida – lämna tillbaka platsen istället för att parkera
+    const contended = pageSlots.pendingCount > 0;
+    if (
+      this.closed ||
+      broken ||
+      contended ||
+      used >= this.maxUses ||
+      page.isClosed()
+    ) {
+      await this.closePage(page);
+      return;
+    }
+    this.idle.push(page);
+  }
+
+  /**
+   * Close all idle pages and the context
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const pages = this.idle.splice(0, this.idle.length);
+    await Promise.all(pages.map((p) => this.closePage(p)));
+    await this.context.close().catch(() => {});
+    // sidor som fortfarande var utlånade stängs med contexten
+    for (const page of [...this.slots.keys()]) this.freeSlot(page);
+  }
+
+  private async closePage(page: Page) {
+    await page.close().catch(() => {});
+    this.freeSlot(page);
+  }
+
+  private freeSlot(page: Page) {
+    this.slots.get(page)?.();
+    this.slots.delete(page);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Canonical product catalogue (scraped_products keyed by GTIN-14)
+ */
+
+import { and, asc, eq, isNull, sql } from "drizzle-orm";
+import {
+  scrapedProductListings,
+  scrapedProducts,
+  scrapedStores,
+} from "../schema";
+import { db, type DbTransaction } from "./drizzleClient";
+import { toGtin14 } from "./product/gtin";
+
+/** Product fields offered to the catalogue by a listing */
+export interface CatalogueCandidate {
+  gtin14: string;
+  name?: string | null;
+  brand?: string | null;
+  imageUrl?: string | null;
+}
+
+/** Catalogue product */
+export interface CatalogueProduct {
+  id: number;
+  gtin14: string;
+  name: string | null;
+  brand: string | null;
+  imageUrl: string | null;
+}
+
+/** One store's offer for a catalogue product */
+export interface ProductOffer {
+  listingId: number;
+  store: string;
+  storeDomain: string;
+  productName: string;
+  productUrl: string | null;
+  priceMinor: number | null;
+  originalPriceMinor: number | null;
+  discountPercent: number | null;
+  currency: string | null;
+  inStock: boolean | null;
+  updatedAt: Date | null;
+  /** Set when the store no longer lists the product */
+  delistedAt: Date | null;
+  /** Set while the price is unconfirmed (see checkPrice); not a deal yet */
+  priceFlag: string | null;
+}
+
+/** Filters for offer queries */
+export interface OfferQueryOptions {
+  /** Also return listings the store no longer has (default false) */
+  includeDelisted?: boolean;
+}
+
+/**
+ * Ensures catalogue rows exist for the given GTINs. Name, brand and image
+ * are only filled in where the catalogue has none yet.
+ * @param tx - Database or open transaction
+ * @param candidates - Products seen in one write batch
+ * @returns Catalogue ID per GTIN-14
+ */
+export async function upsertCatalogueProducts(
+  tx: typeof db | DbTransaction,
+  candidates: CatalogueCandidate[],
+): Promise<Map<string, number>> {
+  const byGtin = new Map<string, CatalogueCandidate>();
+  for (const c of candidates) if (!byGtin.has(c.gtin14)) byGtin.set(c.gtin14, c);
+  if (byGtin.size === 0) return new Map();
+
+  const rows = await tx
+    .insert(scrapedProducts)
+    .values(
+      [...byGtin.values()].map((c) => ({
+        gtin14: c.gtin14,
+        name: c.name || null,
+        brand: c.brand?.trim() || null,
+        imageUrl: c.imageUrl || null,
+      })),
+    )
+    .onConflictDoUpdate({
+      target: scrapedProducts.gtin14,
+      set: {
+        name: sql`coalesce(${scrapedProducts.name}, excluded.name)`,
+        brand: sql`coalesce(${scrapedProducts.brand}, excluded.brand)`,
+        imageUrl: sql`coalesce(${scrapedProducts.imageUrl}, excluded.image_url)`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ id: scrapedProducts.id, gtin14: scrapedProducts.gtin14 });
+  return new Map(rows.map((r) => [r.gtin14, r.id]));
+}
+
+/**
+ * Looks up a catalogue product by any GTIN form (EAN-8/13, UPC-12, GTIN-14)
+ * @param code - GTIN as printed or scraped
+ * @returns The product, or null if unknown/invalid
+ */
+export async function findProductByGtin(
+  code: string,
+): Promise<CatalogueProduct | null> {
+  const gtin14 = toGtin14(code);
+  if (!gtin14) return null;
+  const [row] = await db
+    .select({
+      id: scrapedProducts.id,
+      gtin14: scrapedProducts.gtin14,
+      name: scrapedProducts.name,
+      brand: scrapedProducts.brand,
+      imageUrl: scrapedProducts.imageUrl,
+    })
+    .from(scrapedProducts)
+    .where(eq(scrapedProducts.gtin14, gtin14))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Every store's offer for one product, cheapest first (listings without
+ * a price last). Delisted listings are left out unless asked for.
+ * @param productId - Catalogue product ID
+ * @param options - includeDelisted
+ * @returns Offers sorted by price
+ */
+export async function getProductOffers(
+  productId: number,
+  options: OfferQueryOptions = {},
+): Promise<ProductOffer[]> {
+  return db
+    .select({
+      listingId: scrapedProductListings.id,
+      store: scrapedStores.name,
+      storeDomain: scrapedStores.domain,
+      productName: scrapedProductListings.productName,
+      productUrl: scrapedProductListings.productUrl,
+      priceMinor: scrapedProductListings.priceMinor,
+      originalPriceMinor: scrapedProductListings.originalPriceMinor,
+      discountPercent: scrapedProductListings.discountPercent,
+      currency: scrapedProductListings.currency,
+      inStock: scrapedProductListings.inStock,
+      updatedAt: scrapedProductListings.updatedAt,
+      delistedAt: scrapedProductListings.delistedAt,
+      priceFlag: scrapedProductListings.priceFlag,
+    })
+    .from(scrapedProductListings)
+    .innerJoin(
+      scrapedStores,
+      eq(scrapedStores.id, scrapedProductListings.scrapedStoreId),
+    )
+    .where(
+      and(
+        eq(scrapedProductListings.productId, productId),
+        options.includeDelisted
+          ? undefined
+          : isNull(scrapedProductListings.delistedAt),
+      ),
+    )
+    .orderBy(
+      sql`${scrapedProductListings.priceMinor} asc nulls last`,
+      asc(scrapedStores.name),
+    );
+}
+
+/**
+ * Convenience lookup: product plus all offers for a GTIN
+ * @param code - GTIN in any supported length
+ * @param options - includeDelisted
+ * @returns Product with offers sorted by price, or null if not in the catalogue
+ */
+export async function getOffersByGtin(
+  code: string,
+  options: OfferQueryOptions = {},
+): Promise<{ product: CatalogueProduct; offers: ProductOffer[] } | null> {
+  const product = await findProductByGtin(code);
+  if (!product) return null;
+  return { product, offers: await getProductOffers(product.id, options) };
+}
@@ -22,7 +22,12 @@ const DEFAULTS = {
   cooldownSeconds: 120, // sek
 };
 
-export function withDefaults(cfg?: PacingConfig): Required<PacingConfig> {
+/** Settle-väntan är avstängd utan värde och har därför inget default */
+type OptionalPacing = "navSettlePdp" | "navSettleTimeoutMs";
+
+export function withDefaults(
+  cfg?: PacingConfig,
+): Required<Omit<PacingConfig, OptionalPacing>> {
   const c = cfg ?? {};
   return {
     hostMaxNavRps: c.hostMaxNavRps ?? DEFAULTS.hostMaxNavRps,
@@ -2,7 +2,8 @@
  * Sitemap parsing and URL discovery
  */
 
-import type { SiteAdapter } from "../types/index";
+import { parseUrlsetEntries } from "../sitemap";
+import type { SiteAdapter, SitemapEntry } from "../types/index";
 import { normalizeUrlKey, resolveLocation, uniq } from "../utils/index";
 import { fetchText } from "./fetcher";
 import { robotsSitemaps } from "./robots";
@@ -29,6 +30,21 @@ function extractLocs(xml: string): string[] {
 export async function discoverProductUrls(
   adapter: SiteAdapter,
 ): Promise<string[]> {
+  const entries = await discoverProductEntries(adapter);
+  return entries.map((e) => e.loc);
+}
+
+/**
+ * Discovers product sitemap entries (URL + optional <lastmod>)
+ * Same sources as discoverProductUrls; duplicates keep the newest lastmod
+ * @param adapter - Site adapter configuration
+ * @param extraSitemaps - Additional start sitemaps (e.g. the adapter's fallback sources)
+ * @returns Array of discovered product entries
+ */
+export async function discoverProductEntries(
+  adapter: SiteAdapter,
+  extraSitemaps: string[] = [],
+): Promise<SitemapEntry[]> {
   const rx = adapter.discovery?.productUrlRegex;
   const startCandidates: string[] = [];
 
@@ -58,14 +74,14 @@ export async function discoverProductUrls(
         return false;
       }
     });
-  startCandidates.push(...extra);
+  startCandidates.push(...extra, ...extraSitemaps);
 
   const robots = await robotsSitemaps(adapter.baseHost);
   startCandidates.push(...robots);
 
   const queue = uniq(startCandidates);
   const seen = new Set<string>();
-  const productUrls: string[] = [];
+  const products = new Map<string, SitemapEntry>();
 
   while (queue.length > 0) {
     const url = queue.shift()!;
@@ -91,16 +107,23 @@ export async function discoverProductUrls(
     }
 
     if (lower.includes("<urlset")) {
-      const locs = extractLocs(xml);
-      for (const loc of locs) {
-        const abs = resolveLocation(url, loc, adapter.baseHost);
+      for (const entry of parseUrlsetEntries(xml)) {
+        const abs = resolveLocation(url, entry.loc, adapter.baseHost);
         if (!abs) continue;
         const u = normalizeUrlKey(abs);
-        if (rx ? rx.test(u) : true) productUrls.push(u);
+        if (rx && !rx.test(u)) continue;
+        const prev = products.get(u);
+        const newer =
+          !prev ||
+          (Date.parse(entry.lastmod ?? "") || 0) >
+            (Date.parse(prev.lastmod ?? "") || 0);
+        if (newer) {
+          products.set(u, { loc: u, lastmod: entry.lastmod });
+        }
       }
       continue;
     }
   }
 
-  return uniq(productUrls);
+  return Array.from(products.values());
 }
@@ -5,3 +5,6 @@ import * as schema from "../schema";
 const pool = new Pool({ connectionString: process.env.DB_URL });
 
 export const db = drizzle(pool, { schema });
+
+/** Transaction handle passed to `db.transaction` callbacks */
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -0,0 +1,188 @@
+/**
+ * Crash-resumable run checkpoints (persisted URL frontier per run and site)
+ */
+
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { SitemapEntry } from "../types/index";
+
+const DEFAULT_DIR = process.env.CHECKPOINT_DIR || "state/checkpoints";
+
+/**
+ * Creates a new run ID, e.g. "20251019T021500-3f9a1c2e"
+ * @returns Sortable, unique run ID
+ */
+export function createRunId(): string {
+  const ts = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d+Z$/, "");
+  return `${ts}-${randomUUID().slice(0, 8)}`;
+}
+
+/** Run IDs end up in file paths – keep them boring */
+const safeSegment = (s: string) => s.replace(/[^A-Za-z0-9._-]+/g, "_");
+
+/**
+ * Frontier for one (runId, site): `frontier.json` holds the planned entries,
+ * `events.ndjson` is an append-only log of done/failed URLs.
+ * A restarted job with the same run ID reloads both and continues.
+ */
+export class RunCheckpoint {
+  private entries: SitemapEntry[] | null = null;
+  private readonly done = new Set<string>();
+  private readonly failed = new Set<string>();
+
+  private constructor(
+    readonly runId: string,
+    readonly siteKey: string,
+    private readonly dir: string,
+  ) {}
+
+  /**
+   * Opens (and if present, loads) the checkpoint for a run and site
+   * @param runId - Run ID (same ID on restart = resume)
+   * @param siteKey - Site key
+   * @param baseDir - Checkpoint root directory
+   */
+  static async open(
+    runId: string,
+    siteKey: string,
+    baseDir = DEFAULT_DIR,
+  ): Promise<RunCheckpoint> {
+    const dir = path.join(baseDir, safeSegment(runId), safeSegment(siteKey));
+    const cp = new RunCheckpoint(runId, siteKey, dir);
+    await cp.load();
+    return cp;
+  }
+
+  /** True if a frontier from an earlier attempt of this run was found */
+  get resumed(): boolean {
+    return this.entries !== null;
+  }
+
+  get doneCount(): number {
+    return this.done.size;
+  }
+
+  get failedCount(): number {
+    return this.failed.size;
+  }
+
+  /** True when an earlier attempt finished every URL of the frontier */
+  get completed(): boolean {
+    return this.entries !== null && this.remaining().length === 0;
+  }
+
+  /**
+   * Entries still to visit: everything not done (failed ones are retried)
+   * @returns Remaining frontier
+   */
+  remaining(): SitemapEntry[] {
+    return (this.entries ?? []).filter((e) => !this.done.has(e.loc));
+  }
+
+  /**
+   * Persists the frontier for a fresh run
+   * @param entries - Planned entries
+   */
+  async start(entries: SitemapEntry[]): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const file = this.file("frontier.json");
+    const tmp = `${file}.tmp`;
+    await fs.promises.writeFile(
+      tmp,
+      JSON.stringify({ runId: this.runId, site: this.siteKey, entries }),
+      "utf8",
+    );
+    await fs.promises.rename(tmp, file);
+    await fs.promises.writeFile(this.file("events.ndjson"), "", "utf8");
+    this.entries = entries;
+  }
+
+  /**
+   * Records URLs whose results have been persisted
+   * @param urls - Completed URLs
+   */
+  async markDone(urls: string[]): Promise<void> {
+    if (!this.entries || urls.length === 0) return;
+    for (const u of urls) {
+      this.done.add(u);
+      this.failed.delete(u);
+    }
+    await this.append(urls.map((u) => ({ u, s: "done" })));
+  }
+
+  /**
+   * Records a URL that failed after all retries
+   * @param url - Failed URL
+   */
+  async markFailed(url: string): Promise<void> {
+    if (!this.entries) return;
+    this.failed.add(url);
+    await this.append([{ u: url, s: "failed" }]);
+  }
+
+  private file(name: string) {
+    return path.join(this.dir, name);
+  }
+
+  private async append(events: Array<{ u: string; s: string }>) {
+    const lines = events.map((e) => JSON.stringify(e)).join("\n") + "\n";
+    await fs.promises.appendFile(this.file("events.ndjson"), lines, "utf8");
+  }
+
+  private async load() {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.file("frontier.json"), "utf8");
+    } catch {
+      return; // ingen checkpoint – ny körning
+    }
+    try {
+      this.entries = JSON.parse(raw).entries ?? [];
+    } catch (e) {
+      console.warn(
+        `[warn] corrupt checkpoint ${this.dir}, starting over: ${String(e)}`,
+      );
+      return;
+    }
+
+    const log = await fs.promises
+      .readFile(this.file("events.ndjson"), "utf8")
+      .catch(() => "");
+    for (const line of log.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const ev = JSON.parse(line);
+        if (ev.s === "done") {
+          this.done.add(ev.u);
+          this.failed.delete(ev.u);
+        } else if (ev.s === "failed") this.failed.add(ev.u);
+      } catch {
+        // avklippt sista rad efter krasch
+      }
+    }
+  }
+}
+
+/**
+ * Removes checkpoint directories older than the given age
+ * @param maxAgeDays - Age threshold in days
+ * @param baseDir - Checkpoint root directory
+ */
+export async function pruneCheckpoints(
+  maxAgeDays: number,
+  baseDir = DEFAULT_DIR,
+): Promise<void> {
+  const cutoff = Date.now() - maxAgeDays * 24 * 3600 * 1000;
+  const runs = await fs.promises.readdir(baseDir).catch(() => [] as string[]);
+  for (const run of runs) {
+    const p = path.join(baseDir, run);
+    const st = await fs.promises.stat(p).catch(() => null);
+    if (st && st.mtimeMs < cutoff) {
+      await fs.promises.rm(p, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Adaptive throttling driven by the pacing error budget
+ */
+
+import { errorBudget } from "../config/pacing";
+import type { PacingConfig } from "../types/index";
+import { Logger } from "../utils/logger";
+import type { Semaphore } from "../utils/semaphore";
+import type { HostLimiter } from "./host-limiter";
+
+/** Minsta antal utfall i fönstret innan vi agerar på felkvoten */
+const MIN_SAMPLES = 20;
+/** Minsta tid mellan två nedskalningar (ms) */
+const TIGHTEN_SETTLE_MS = 10_000;
+const MIN_SCALE = 0.1;
+const TIGHTEN_FACTOR = 0.5;
+const RELAX_FACTOR = 1.5;
+
+/**
+ * Sliding-window error-rate controller for one site.
+ * Above `errorRateWarn` it halves the limiter rate and the concurrency;
+ * once the rate has stayed below `errorRateGood` for `cooldownSeconds`
+ * it steps both back up towards the configured maximum.
+ */
+export class ErrorRateController {
+  private readonly budget: ReturnType<typeof errorBudget>;
+  private samples: Array<{ at: number; ok: boolean }> = [];
+  private failures = 0;
+  private scale = 1;
+  private lastChangeAt = Date.now();
+
+  constructor(
+    private readonly site: string,
+    pacing: PacingConfig | undefined,
+    private readonly limiter: HostLimiter,
+    private readonly gate: Semaphore,
+    private readonly maxConcurrency: number,
+  ) {
+    this.budget = errorBudget(pacing);
+  }
+
+  /** Current throttle factor (1 = full speed) */
+  get throttle(): number {
+    return this.scale;
+  }
+
+  /** Error rate within the current window (0..1) */
+  errorRate(): number {
+    this.prune(Date.now());
+    return this.samples.length ? this.failures / this.samples.length : 0;
+  }
+
+  /**
+   * Records the outcome of one navigation attempt and adjusts pacing
+   * @param ok - Whether the attempt succeeded
+   */
+  record(ok: boolean): void {
+    const now = Date.now();
+    this.samples.push({ at: now, ok });
+    if (!ok) this.failures++;
+    this.prune(now);
+    this.evaluate(now);
+  }
+
+  private prune(now: number) {
+    const cutoff = now - this.budget.windowSec * 1000;
+    let drop = 0;
+    while (drop < this.samples.length && this.samples[drop].at < cutoff) {
+      if (!this.samples[drop].ok) this.failures--;
+      drop++;
+    }
+    if (drop > 0) this.samples = this.samples.slice(drop);
+  }
+
+  private evaluate(now: number) {
+    if (this.samples.length < MIN_SAMPLES) return;
+    const rate = this.failures / this.samples.length;
+    const sinceChange = now - this.lastChangeAt;
+
+    if (
+      rate > this.budget.warn &&
+      this.scale > MIN_SCALE &&
+      sinceChange >= TIGHTEN_SETTLE_MS
+    ) {
+      this.apply(
+        Math.max(MIN_SCALE, this.scale * TIGHTEN_FACTOR),
+        rate,
+        "tightened",
+      );
+    } else if (
+      rate < this.budget.good &&
+      this.scale < 1 &&
+      sinceChange >= this.budget.cooldownSec * 1000
+    ) {
+      this.apply(Math.min(1, this.scale * RELAX_FACTOR), rate, "relaxed");
+    }
+  }
+
+  private apply(
+    scale: number,
+    rate: number,
+    direction: "tightened" | "relaxed",
+  ) {
+    this.scale = scale;
+    this.limiter.setScale(scale);
+    this.gate.setLimit(Math.max(1, Math.round(this.maxConcurrency * scale)));
+    Logger.cooldownActivated(this.site, {
+      direction,
+      errorRate: rate,
+      targetRps: this.limiter.currentRps(),
+      concurrency: this.gate.limit,
+    });
+    // nytt observationsfönster efter varje ändring
+    this.samples = [];
+    this.failures = 0;
+    this.lastChangeAt = Date.now();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Error types raised while crawling a PDP
+ */
+
+import { ValidationError } from "../validation/index";
+
+/** Non-2xx answer from the target site (page.goto or fastpath fetch) */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public url: string,
+    public retryAfterSec?: number,
+  ) {
+    super(`HTTP ${status} for ${url}`);
+    this.name = "HttpError";
+  }
+
+  /** Throttling/overload answers worth backing off for */
+  get isThrottle(): boolean {
+    return this.status === 429 || this.status === 503;
+  }
+
+  /** The PDP no longer exists – not retried, the listing is delisted */
+  get isGone(): boolean {
+    return this.status === 404 || this.status === 410;
+  }
+}
+
+/**
+ * The page loaded fine but did not yield a usable product
+ * (not a PDP, or required fields missing with no fallback allowed).
+ * Not retried and not counted against the site's error budget.
+ */
+export class ExtractionError extends Error {
+  constructor(message: string, public missing: string[] = []) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+/**
+ * The PDP redirected somewhere that is not a product (typically a category
+ * or the start page) – the product has been removed
+ */
+export class RedirectedError extends ExtractionError {
+  constructor(
+    public url: string,
+    public finalUrl: string,
+  ) {
+    super(`redirected to non-product page ${finalUrl}`);
+    this.name = "RedirectedError";
+  }
+}
+
+/**
+ * Parses a Retry-After header value (seconds or HTTP date)
+ * @param value - Header value
+ * @returns Seconds to wait, or undefined if absent/invalid
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+  const sec = Number(value);
+  if (Number.isFinite(sec) && sec > 0) return sec;
+  const at = Date.parse(value);
+  if (!Number.isFinite(at)) return undefined;
+  const diff = Math.ceil((at - Date.now()) / 1000);
+  return diff > 0 ? diff : undefined;
+}
+
+const NETWORK_ERROR =
+  /ECONN|ENOTFOUND|EAI_AGAIN|net::ERR_|socket hang up|fetch failed/i;
+
+/**
+ * Buckets a terminal PDP failure for run statistics
+ * @param e - Thrown error
+ * @returns Category such as "throttled", "gone", "http_4xx", "extraction", "invalid" or "timeout"
+ */
+export function errorCategory(e: unknown): string {
+  if (e instanceof HttpError) {
+    if (e.isThrottle) return "throttled";
+    if (e.isGone) return "gone";
+    return e.status >= 500 ? "http_5xx" : "http_4xx";
+  }
+  if (e instanceof RedirectedError) return "gone";
+  if (e instanceof ExtractionError) return "extraction";
+  if (e instanceof ValidationError) return "invalid";
+  const err = e as { name?: string; message?: string } | null;
+  const msg = err?.message ?? "";
+  if (err?.name === "TimeoutError" || /timeout/i.test(msg)) return "timeout";
+  if (NETWORK_ERROR.test(msg)) return "network";
+  return "other";
+}
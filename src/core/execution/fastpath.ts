@@ -0,0 +1,199 @@
+/**
+ * HTTP fastpath extraction (no browser)
+ */
+
+import { envBool } from "../config/env";
+import { BROWSER_CONSTANTS } from "../constants/index";
+import {
+  extractNostoPricesFromHtml,
+  parseJsonLdScripts,
+  parseNum,
+} from "../extractors";
+import type { Product, SiteAdapter } from "../types/index";
+import { HttpError, parseRetryAfter } from "./errors";
+import { acquireNavigation } from "./host-limiter";
+
+const DEFAULT_REQUIRED: Array<keyof Product> = ["name", "price"];
+
+export interface FastpathResult {
+  product: Product;
+  /** Obligatoriska fält som saknas (tom = fastpath räcker) */
+  missing: Array<keyof Product>;
+  status: number;
+  finalUrl: string;
+}
+
+/**
+ * Whether the adapter is configured for the fastpath strategy
+ * @param adapter - Site adapter configuration
+ */
+export function usesFastpath(adapter: SiteAdapter): boolean {
+  return adapter.extraction?.mode === "fastpath";
+}
+
+/**
+ * Whether a browser page may be opened when fastpath comes up short
+ * Allowed by the adapter (`extraction.browserFallback`) or env ALLOW_BROWSER_FALLBACK
+ * @param adapter - Site adapter configuration
+ */
+export function allowsBrowserFallback(adapter: SiteAdapter): boolean {
+  return (
+    adapter.extraction?.browserFallback === true ||
+    envBool("ALLOW_BROWSER_FALLBACK", false)
+  );
+}
+
+/**
+ * Fetches a PDP with browser-like headers through the host limiter
+ * @param url - PDP URL
+ * @param timeoutMs - Deadline for the whole request including the body
+ * @returns HTML, status and final URL after redirects
+ * @throws HttpError on non-2xx responses, TimeoutError when the deadline passes
+ */
+export async function fetchPdpHtml(
+  url: string,
+  timeoutMs = 30_000,
+): Promise<{ html: string; status: number; finalUrl: string }> {
+  await acquireNavigation(url);
+  // en server som slutar svara ska inte hålla en gate-plats för evigt
+  const r = await fetch(url, {
+    redirect: "follow",
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: {
+      "user-agent": BROWSER_CONSTANTS.USER_AGENT,
+      accept:
+        "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      "accept-encoding": BROWSER_CONSTANTS.ACCEPT_ENCODING,
+      referer: BROWSER_CONSTANTS.DEFAULT_REFERER,
+    },
+  });
+  if (!r.ok) {
+    throw new HttpError(
+      r.status,
+      url,
+      parseRetryAfter(r.headers.get("retry-after")),
+    );
+  }
+  const buf = Buffer.from(await r.arrayBuffer());
+  const html = new TextDecoder("utf-8", { fatal: false }).decode(buf);
+  return { html, status: r.status, finalUrl: r.url || url };
+}
+
+const hasType = (t: any, re: RegExp) =>
+  (typeof t === "string" && re.test(t)) ||
+  (Array.isArray(t) && t.some((x) => typeof x === "string" && re.test(x)));
+
+function pickProductNode(nodes: any[]): any | null {
+  for (const n of nodes) {
+    if (!n || typeof n !== "object") continue;
+    if (hasType(n["@type"], /^(Product|ProductModel|ProductGroup)$/i)) return n;
+    if (hasType(n["@type"], /^WebPage$/i) && n.mainEntity) {
+      const inner = pickProductNode([n.mainEntity].flat());
+      if (inner) return inner;
+    }
+  }
+  return null;
+}
+
+function parseOffers(offers: any) {
+  const many = Array.isArray(offers) ? offers : offers ? [offers] : [];
+  let priceRaw: any = null;
+  let currency: string | null = null;
+  let availability: string | null = null;
+  for (const o of many) {
+    if (priceRaw == null)
+      priceRaw = o?.price ?? o?.lowPrice ?? o?.highPrice ?? null;
+    if (!currency && typeof o?.priceCurrency === "string")
+      currency = o.priceCurrency;
+    if (!availability && typeof o?.availability === "string")
+      availability = o.availability;
+  }
+  const price = priceRaw == null ? null : parseNum(String(priceRaw));
+  return { price, currency, availability };
+}
+
+function meta(html: string, prop: string): string | null {
+  const re = new RegExp(
+    `<meta[^>]+(?:property|name|itemprop)=["']${prop}["'][^>]+content=["']([^"']+)["']`,
+    "i",
+  );
+  return re.exec(html)?.[1]?.trim() ?? null;
+}
+
+/**
+ * Builds a product from server-rendered HTML: JSON-LD first, then
+ * Nosto/meta tags, finally the adapter's `fastpathAdjust`
+ * @param adapter - Site adapter configuration
+ * @param html - PDP HTML
+ * @param url - PDP URL
+ * @returns Extracted product (fields may be null)
+ */
+export function productFromHtml(
+  adapter: SiteAdapter,
+  html: string,
+  url: string,
+): Product {
+  const node = pickProductNode(parseJsonLdScripts(html));
+  const offers = parseOffers(node?.offers);
+  const nosto = extractNostoPricesFromHtml(html);
+
+  const price =
+    offers.price ??
+    nosto.price ??
+    parseNum(meta(html, "product:price:amount") ?? meta(html, "price"));
+  const listPrice = nosto.listPrice ?? null;
+  const image = Array.isArray(node?.image) ? node.image[0] : node?.image;
+
+  const p: Product = {
+    name: node?.name ?? meta(html, "og:title"),
+    price,
+    originalPrice:
+      listPrice != null && price != null && listPrice > price
+        ? listPrice
+        : null,
+    currency:
+      offers.currency ??
+      meta(html, "product:price:currency") ??
+      adapter.defaults?.currency ??
+      "SEK",
+    imageUrl:
+      (typeof image === "string" ? image : image?.url) ??
+      meta(html, "og:image"),
+    ean:
+      node?.gtin13 ||
+      node?.gtin14 ||
+      node?.gtin12 ||
+      node?.gtin8 ||
+      node?.gtin ||
+      null,
+    url,
+    brand:
+      (typeof node?.brand === "string" ? node.brand : node?.brand?.name) ??
+      null,
+    inStock: offers.availability ? /instock/i.test(offers.availability) : null,
+  };
+
+  return adapter.fastpathAdjust ? adapter.fastpathAdjust(html, p) : p;
+}
+
+/**
+ * Runs the fastpath for one PDP
+ * @param adapter - Site adapter configuration
+ * @param url - PDP URL
+ * @returns Product plus the required fields that are still missing
+ */
+export async function extractFastpath(
+  adapter: SiteAdapter,
+  url: string,
+): Promise<FastpathResult> {
+  const { html, status, finalUrl } = await fetchPdpHtml(
+    url,
+    adapter.pacing?.pdpTimeoutMs ?? 30_000,
+  );
+  const product = productFromHtml(adapter, html, url);
+  const required = adapter.extraction?.requiredFields ?? DEFAULT_REQUIRED;
+  const missing = required.filter(
+    (k) => product[k] == null || product[k] === "",
+  );
+  return { product, missing, status, finalUrl };
+}
@@ -0,0 +1,145 @@
+/**
+ * Host-level navigation limiter (token bucket following the pacing ramp)
+ */
+
+import type { Page } from "playwright";
+import { envInt } from "../config/env";
+import { gotoMinSpacingMs, jitterDelayMs, targetRps } from "../config/pacing";
+import type { PacingConfig } from "../types/index";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Token bucket per host. Refill rate follows `targetRps` (ramp clamped to
+ * hostMaxNavRps); every slot additionally honours gotoMinSpacingMs and the
+ * minDelayMs/maxDelayMs jitter. Waiters are served FIFO.
+ */
+export class HostLimiter {
+  private readonly startedAt = Date.now();
+  private tokens: number;
+  private lastRefill = Date.now();
+  private lastSlotAt = 0;
+  private scale = 1;
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * @param host - Host name
+   * @param pacing - Site pacing configuration
+   * @param share - Fraction of the host budget owned by this process (parallel shards)
+   * @param burst - Bucket size
+   */
+  constructor(
+    readonly host: string,
+    private readonly pacing: PacingConfig | undefined,
+    private readonly share = 1,
+    readonly burst = Math.max(1, envInt("HOST_NAV_BURST", 1)),
+  ) {
+    this.tokens = this.burst;
+  }
+
+  /** Current target rate (req/s) according to the ramp, throttle scale and share */
+  currentRps(): number {
+    const sinceStartSec = (Date.now() - this.startedAt) / 1000;
+    return targetRps(this.pacing, sinceStartSec) * this.scale * this.share;
+  }
+
+  /**
+   * Scales the ramp rate, e.g. 0.5 while the site is returning errors
+   * @param factor - Multiplier in (0, 1]
+   */
+  setScale(factor: number): void {
+    this.scale = Math.min(1, Math.max(0.01, factor));
+  }
+
+  /**
+   * Wait until a navigation/fetch against the host is allowed
+   * @returns Promise that resolves when the caller may proceed
+   */
+  acquire(): Promise<void> {
+    const slot = this.tail.then(() => this.waitForSlot());
+    this.tail = slot.catch(() => {});
+    return slot;
+  }
+
+  private refill(now: number, rps: number) {
+    const elapsedSec = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSec * rps);
+    this.lastRefill = now;
+  }
+
+  private async waitForSlot(): Promise<void> {
+    for (;;) {
+      const rps = Math.max(0.01, this.currentRps());
+      const now = Date.now();
+      this.refill(now, rps);
+      if (this.tokens >= 1) break;
+      await sleep(Math.ceil(((1 - this.tokens) / rps) * 1000));
+    }
+    this.tokens -= 1;
+
+    // spacing skalas också, annars biter inte throttlen på sajter med lång spacing
+    const spacing = gotoMinSpacingMs(this.pacing) / (this.scale * this.share);
+    const sinceLast = Date.now() - this.lastSlotAt;
+    const wait = Math.max(0, spacing - sinceLast) + jitterDelayMs(this.pacing);
+    if (wait > 0) await sleep(wait);
+    this.lastSlotAt = Date.now();
+  }
+}
+
+const limiters = new Map<string, HostLimiter>();
+
+/**
+ * Create (or replace) the limiter for a host at the start of a run
+ * @param host - Host name, e.g. "www.apoteket.se"
+ * @param pacing - Site pacing configuration
+ * @param share - Fraction of the host budget for this process (default 1)
+ * @returns The fresh limiter
+ */
+export function registerHostLimiter(
+  host: string,
+  pacing: PacingConfig | undefined,
+  share = 1,
+): HostLimiter {
+  const limiter = new HostLimiter(
+    host.toLowerCase(),
+    pacing,
+    Math.min(1, Math.max(0.01, share)),
+  );
+  limiters.set(limiter.host, limiter);
+  return limiter;
+}
+
+/**
+ * Look up the limiter responsible for a URL
+ * @param url - Absolute URL
+ * @returns The registered limiter or undefined
+ */
+export function hostLimiterFor(url: string): HostLimiter | undefined {
+  try {
+    return limiters.get(new URL(url).host.toLowerCase());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wait for a navigation slot for the URL's host (no-op if no run registered one)
+ * Used by adapters that fetch HTML outside the runner
+ * @param url - URL about to be fetched
+ */
+export async function acquireNavigation(url: string): Promise<void> {
+  await hostLimiterFor(url)?.acquire();
+}
+
+/**
+ * Route every `page.goto` on this page through the limiter
+ * @param page - Playwright page
+ * @param limiter - Limiter to acquire before each navigation
+ */
+export function throttleNavigation(page: Page, limiter: HostLimiter): void {
+  const goto = page.goto.bind(page);
+  page.goto = async (url, options) => {
+    await limiter.acquire();
+    return goto(url, options);
+  };
+}
@@ -3,3 +3,11 @@
  */
 
 export * from "./runner";
+export * from "./sharded";
+export * from "./run-mode";
+export * from "./checkpoint";
+export * from "./run-record";
+export * from "./host-limiter";
+export * from "./error-budget";
+export * from "./errors";
+export * from "./fastpath";
@@ -0,0 +1,95 @@
+/**
+ * Run mode planning (full / delta / refresh)
+ */
+
+import type { CrawlStateEntry } from "../storage";
+import type { SitemapEntry } from "../types/index";
+
+export type RunMode = "full" | "delta" | "refresh";
+
+export interface RunPlanOptions {
+  runMode: RunMode;
+  deltaGraceSeconds: number;
+  refreshTtlDays: number;
+}
+
+export interface RunPlan {
+  selected: SitemapEntry[];
+  fresh: number; // aldrig crawlade tidigare
+  changed: number; // lastmod nyare än senaste crawl (delta)
+  stale: number; // äldre än refreshTtlDays
+  skipped: number;
+}
+
+/**
+ * Decides which discovered entries to visit for the given run mode
+ * - full: everything
+ * - delta: new URLs, URLs whose sitemap lastmod is newer than the last crawl
+ *   (minus the grace window), and URLs without lastmod that are past the TTL
+ * - refresh: only already known URLs whose last crawl is older than the TTL
+ * @param entries - Discovered sitemap entries
+ * @param state - Persisted crawl state keyed by URL
+ * @param options - Run mode and its thresholds
+ * @param now - Reference time in ms (default: Date.now())
+ * @returns Selected entries with per-reason counts
+ */
+export function planRun(
+  entries: SitemapEntry[],
+  state: Map<string, CrawlStateEntry>,
+  options: RunPlanOptions,
+  now = Date.now(),
+): RunPlan {
+  const plan: RunPlan = {
+    selected: [],
+    fresh: 0,
+    changed: 0,
+    stale: 0,
+    skipped: 0,
+  };
+
+  if (options.runMode === "full") {
+    plan.selected = entries;
+    return plan;
+  }
+
+  const graceMs = Math.max(0, options.deltaGraceSeconds) * 1000;
+  const ttlMs = Math.max(0, options.refreshTtlDays) * 24 * 3600 * 1000;
+
+  for (const entry of entries) {
+    const known = state.get(entry.loc);
+    const isStale =
+      !!known && now - known.lastCrawledAt.getTime() > ttlMs;
+
+    if (options.runMode === "refresh") {
+      if (isStale) {
+        plan.selected.push(entry);
+        plan.stale++;
+      } else plan.skipped++;
+      continue;
+    }
+
+    // delta
+    if (!known) {
+      plan.selected.push(entry);
+      plan.fresh++;
+      continue;
+    }
+
+    const lastmodMs = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+    if (Number.isFinite(lastmodMs)) {
+      if (lastmodMs > known.lastCrawledAt.getTime() - graceMs) {
+        plan.selected.push(entry);
+        plan.changed++;
+      } else plan.skipped++;
+      continue;
+    }
+
+    // utan lastmod vet vi inget – besök bara när den blivit inaktuell
+    if (isStale) {
+      plan.selected.push(entry);
+      plan.stale++;
+    } else plan.skipped++;
+  }
+
+  return plan;
+}
@@ -0,0 +1,131 @@
+/**
+ * Per-run bookkeeping persisted to scrape_runs
+ */
+
+import { performance } from "node:perf_hooks";
+import type { StorageBackend } from "../backends/types";
+import { errorCategory } from "./errors";
+import type { SiteRunStats } from "./runner";
+
+/**
+ * Collects phase timings and failure categories for one runSite call and
+ * writes them to scrape_runs. Database errors only warn – a broken run log
+ * must not stop the crawl. Without a backend (no database sink) nothing is written.
+ */
+export class RunRecord {
+  discovered = 0;
+  planned = 0;
+  private readonly phases: Record<string, number> = {};
+  private readonly errors: Record<string, number> = {};
+
+  private constructor(
+    readonly id: number | null,
+    private readonly backend: StorageBackend | null,
+    private readonly siteKey: string,
+    private readonly startedAt: Date,
+  ) {}
+
+  /**
+   * Starts the record (inserts a "running" row when a backend is given)
+   * @param store - Site store (name = site key, domain = host)
+   * @param run - Run ID, BullMQ job ID, parent row (shards) and run mode
+   * @param backend - Database holding scrape_runs, or null to not persist
+   * @returns The record; `id` is null when nothing was written
+   */
+  static async open(
+    store: { name: string; domain: string },
+    run: {
+      runId: string;
+      jobId?: string;
+      parentRunId?: number | null;
+      runMode: string;
+    },
+    backend: StorageBackend | null,
+  ): Promise<RunRecord> {
+    const startedAt = new Date();
+    let id: number | null = null;
+    if (backend) {
+      try {
+        id = await backend.startScrapeRun({ store, startedAt, ...run });
+      } catch (e: any) {
+        console.warn(
+          `[warn] could not record run site=${store.name}: ${e?.message || e}`,
+        );
+      }
+    }
+    return new RunRecord(id, backend, store.name, startedAt);
+  }
+
+  /**
+   * Times a phase (durations of repeated phases add up)
+   * @param phase - Phase name, e.g. "planning", "crawl", "flush"
+   * @param operation - Work done in the phase
+   * @returns Result of the operation
+   */
+  async time<T>(phase: string, operation: () => Promise<T>): Promise<T> {
+    const t0 = performance.now();
+    try {
+      return await operation();
+    } finally {
+      this.phases[phase] =
+        (this.phases[phase] ?? 0) + Math.round(performance.now() - t0);
+    }
+  }
+
+  /**
+   * Counts a URL that failed for good
+   * @param e - Error from the last attempt
+   */
+  recordError(e: unknown): void {
+    const cat = errorCategory(e);
+    this.errors[cat] = (this.errors[cat] ?? 0) + 1;
+  }
+
+  /** Failures per category so far */
+  get errorBreakdown(): Record<string, number> {
+    return { ...this.errors };
+  }
+
+  /**
+   * Closes the row with the run's outcome
+   * @param stats - Stats of a finished run, or null when it threw
+   * @param error - What the run threw
+   */
+  async close(stats: SiteRunStats | null, error?: unknown): Promise<void> {
+    if (this.id === null || !this.backend) return;
+    const w = stats?.writes;
+    try {
+      await this.backend.finishScrapeRun(this.id, {
+        status: stats ? "completed" : "failed",
+        startedAt: this.startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        site: this.siteKey,
+        discovered: this.discovered,
+        planned: this.planned,
+        ok: stats?.ok ?? 0,
+        fails: stats?.fails ?? 0,
+        visited: (stats?.ok ?? 0) + (stats?.fails ?? 0),
+        wrote: (w?.inserted ?? 0) + (w?.updated ?? 0),
+        errors: stats?.fails ?? 0,
+        inserted: w?.inserted ?? 0,
+        updated: w?.updated ?? 0,
+        skipped: w?.skipped ?? 0,
+        writeFailed: w?.failed ?? 0,
+        priceChanges: w?.priceChanges ?? 0,
+        stockChanges: w?.stockChanges ?? 0,
+        priceFlags: w?.priceFlags ?? 0,
+        viaFastpath: stats?.viaFastpath ?? 0,
+        viaBrowser: stats?.viaBrowser ?? 0,
+        phaseDurationsMs: { ...this.phases },
+        errorBreakdown: this.errorBreakdown,
+        error: error ? (error as any)?.message || String(error) : null,
+      });
+    } catch (e: any) {
+      console.warn(
+        `[warn] could not finish run record site=${this.siteKey}: ${
+          e?.message || e
+        }`,
+      );
+    }
+  }
+}
@@ -4,45 +4,143 @@
 
 import fs from "node:fs";
 import { performance } from "node:perf_hooks";
-const { default: pLimit } = await import("p-limit");
-
-import { launchBrowser, optimizePage } from "../browser/index";
-import { discoverProductUrls } from "../discovery/index";
+import type { Browser, Page } from "playwright";
+
+import {
+  createSiteContext,
+  launchBrowser,
+  PagePool,
+  saveStorageState,
+} from "../browser/index";
+import { discoverProductEntries } from "../discovery/index";
 import { extractStandard } from "../extraction/index";
-import { saveScrapedProductListings } from "../storage";
-import type { Product } from "../types/product";
-import { formatDuration } from "../utils/index";
+import { envInt, envStr } from "../config/env";
+import {
+  createSink,
+  ListingPipeline,
+  parseSinkNames,
+  storageBackendFor,
+  type SinkName,
+  type SinkStats,
+} from "../sinks/index";
+import type { CrawlStateEntry, DelistReason, ListingReject } from "../storage";
+import type { PageResponse, SiteAdapter } from "../types/config";
+import type { Product, SitemapEntry } from "../types/product";
+import {
+  canonicalProductUrl,
+  formatDuration,
+  Semaphore,
+} from "../utils/index";
 import sanitizeEan from "../utils/sanitizeEan";
+import {
+  validateScrapedProduct,
+  ValidationError,
+  type ValidProduct,
+} from "../validation/index";
+import { RunCheckpoint } from "./checkpoint";
+import { RunRecord } from "./run-record";
+import { ErrorRateController } from "./error-budget";
+import {
+  ExtractionError,
+  HttpError,
+  parseRetryAfter,
+  RedirectedError,
+} from "./errors";
+import {
+  allowsBrowserFallback,
+  extractFastpath,
+  usesFastpath,
+} from "./fastpath";
+import { registerHostLimiter, throttleNavigation } from "./host-limiter";
+import { planRun, type RunMode } from "./run-mode";
 
 /**
  * Configuration options for running a site extraction
  */
 export interface RunnerOptions {
   outDirBase: string;
-  runMode: "full" | "delta" | "refresh";
+  /** Run ID; restarting with the same ID resumes from its checkpoint */
+  runId: string;
+  runMode: RunMode;
   productsLimit: number;
   progressEvery: number;
   deltaGraceSeconds: number;
   refreshTtlDays: number;
+  /** Pre-planned frontier (e.g. one shard); skips discovery and run-mode planning */
+  entries?: SitemapEntry[];
+  /** Share of the host's rate budget for this runner (parallel shards split it) */
+  rateShare?: number;
+  /** BullMQ job that started the run (recorded in scrape_runs) */
+  jobId?: string;
+  /** scrape_runs row of the sharded parent run, set for shards */
+  parentRunId?: number | null;
+  /** Where extracted listings go (default env SINKS or "postgres") */
+  sinks?: SinkName[];
+  /** Called after every finished URL with running totals */
+  onProgress?: (progress: { ok: number; fails: number }) => void;
+}
+
+/**
+ * Outcome of one site run
+ */
+export interface SiteRunStats {
+  siteKey: string;
+  /** URLs in this run's frontier */
+  total: number;
+  ok: number;
+  fails: number;
+  viaFastpath: number;
+  viaBrowser: number;
+  elapsedSec: number;
+  /** What the listing sink did with the extracted products */
+  writes: SinkStats;
+  /** Set for sharded runs */
+  shards?: { total: number; failed: number };
+}
+
+/** Planned frontier for a run */
+export interface SitePlan {
+  entries: SitemapEntry[];
+  /** Unique URLs found by discovery before run-mode selection and limits */
+  discovered: number;
+  /** Every discovered URL when discovery covered the whole site (not seed-only) */
+  discoveredUrls: string[] | null;
 }
 
 /* ------------------------------- small utils ------------------------------- */
 
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-/* ---------------------------------- runSite --------------------------------- */
+const noWrites = (): SinkStats => ({
+  inserted: 0,
+  updated: 0,
+  skipped: 0,
+  failed: 0,
+  flushes: 0,
+  priceChanges: 0,
+  stockChanges: 0,
+  priceFlags: 0,
+});
+
+const resolveSinks = (options: RunnerOptions): SinkName[] =>
+  options.sinks ?? parseSinkNames(envStr("SINKS", "postgres"));
+
+/** Database for run records, crawl state and delisting (null without a database sink) */
+export const resolveBackend = (options: RunnerOptions) =>
+  storageBackendFor(resolveSinks(options));
+
+/* -------------------------------- discovery -------------------------------- */
 
 /**
- * Main site extraction runner that orchestrates the entire process
- * Handles URL discovery, product extraction, database storage, and output generation
+ * Discovers the PDP entries for a site: seeds (SEED_FILE/SEED_URLS with
+ * SEED_ONLY) or sitemap discovery with retries
  * @param adapter - Site adapter configuration
- * @param options - Runner configuration options
+ * @returns Discovered entries (may contain duplicates) and whether they are seeds
  */
-export async function runSite(adapter: any, options: RunnerOptions) {
-  const t0 = performance.now();
-
+async function discoverSiteEntries(
+  adapter: any,
+): Promise<{ entries: SitemapEntry[]; seeded: boolean }> {
   const siteKey = adapter.key;
-  const siteHost = adapter.baseHost;
 
   // NEW: file-based seeds
   const seedFile = (process.env.SEED_FILE || "").trim();
@@ -65,65 +163,336 @@ export async function runSite(adapter: any, options: RunnerOptions) {
     .filter(Boolean);
   const seedOnly = /^true|1$/i.test(process.env.SEED_ONLY || "false");
 
-  let discoveryUrls: string[] = [];
-
   if ((fileSeeds.length > 0 || seedUrlsEnv.length > 0) && seedOnly) {
-    discoveryUrls = [...fileSeeds, ...seedUrlsEnv];
+    const seeds = [...fileSeeds, ...seedUrlsEnv].map((loc) => ({ loc }));
     console.log(
-      `[info] discovery (seed-only) site=${siteKey} urls=${discoveryUrls.length}`,
+      `[info] discovery (seed-only) site=${siteKey} urls=${seeds.length}`,
     );
-  } else {
-    const attempts = Number(process.env.DISCOVERY_ATTEMPTS || "2");
-    const backoffBase = Number(process.env.DISCOVERY_BACKOFF_MS || "2000");
-    const forcedApok =
-      "https://www.apoteket.se/api/sitemap/sitemapindex.xml,https://api.apoteket.se/sitemap/sitemapindex.xml";
-    const baseExtraEnv = process.env.EXTRA_SITEMAP_URLS || "";
-
-    for (let i = 1; i <= attempts; i++) {
-      if (siteKey === "apoteket" && i >= 2) {
-        const merged = [baseExtraEnv, forcedApok].filter(Boolean).join(",");
-        process.env.EXTRA_SITEMAP_URLS = merged;
-      }
+    return { entries: seeds, seeded: true };
+  }
 
-      const urls = await discoverProductUrls(adapter);
-      console.log(
-        `[info] discovery attempt ${i} site=${siteKey} urls=${urls.length}`,
-      );
-      if (urls.length > 0) {
-        discoveryUrls = urls;
-        break;
-      }
+  let discoveryEntries: SitemapEntry[] = [];
+  const attempts = Number(process.env.DISCOVERY_ATTEMPTS || "2");
+  const backoffBase = Number(process.env.DISCOVERY_BACKOFF_MS || "2000");
+  const fallbacks: string[] = adapter.discovery?.fallbackSitemapUrls ?? [];
 
-      if (i < attempts) {
-        const jitter = Math.floor(Math.random() * 400);
-        const delay = backoffBase * Math.pow(2, i - 1) + jitter;
-        await sleep(delay);
-      }
+  for (let i = 1; i <= attempts; i++) {
+    // adapterns reservkällor används från andra försöket
+    const entries = await discoverProductEntries(
+      adapter,
+      i >= 2 ? fallbacks : [],
+    );
+    console.log(
+      `[info] discovery attempt ${i} site=${siteKey} urls=${entries.length}`,
+    );
+    if (entries.length > 0) {
+      discoveryEntries = entries;
+      break;
+    }
+
+    if (i < attempts) {
+      const jitter = Math.floor(Math.random() * 400);
+      const delay = backoffBase * Math.pow(2, i - 1) + jitter;
+      await sleep(delay);
+    }
+  }
+  return { entries: discoveryEntries, seeded: false };
+}
+
+/**
+ * Discovers and plans the entries to visit in this run (dedupe, run mode, limit)
+ * @param adapter - Site adapter configuration
+ * @param options - Runner configuration options
+ * @returns Entries to visit and the discovered count
+ */
+export async function planSiteEntries(
+  adapter: any,
+  options: RunnerOptions,
+): Promise<SitePlan> {
+  const siteKey = adapter.key;
+  const store = { name: siteKey, domain: adapter.baseHost };
+  const discovery = await discoverSiteEntries(adapter);
+  let discoveryEntries = [
+    ...new Map(discovery.entries.map((e) => [e.loc, e])).values(),
+  ];
+  const discovered = discoveryEntries.length;
+  const discoveredUrls = discovery.seeded
+    ? null
+    : discoveryEntries.map((e) => e.loc);
+
+  // delta/refresh: välj bara det som behöver besökas
+  if (options.runMode !== "full" && discoveryEntries.length > 0) {
+    let state = new Map<string, CrawlStateEntry>();
+    try {
+      const backend = await resolveBackend(options);
+      if (backend) state = await backend.loadCrawlState(store);
+    } catch (e: any) {
+      console.warn(
+        `[warn] could not load crawl state site=${siteKey}; visiting all: ${
+          e?.message || e
+        }`,
+      );
     }
-    process.env.EXTRA_SITEMAP_URLS = baseExtraEnv;
+    const plan = planRun(discoveryEntries, state, options);
+    console.log(
+      `[info] plan site=${siteKey} mode=${options.runMode} discovered=${discoveryEntries.length} selected=${plan.selected.length} new=${plan.fresh} changed=${plan.changed} stale=${plan.stale} skipped=${plan.skipped}`,
+    );
+    discoveryEntries = plan.selected;
   }
 
-  discoveryUrls = [...new Set(discoveryUrls)];
   if (
     options.productsLimit > 0 &&
-    discoveryUrls.length > options.productsLimit
+    discoveryEntries.length > options.productsLimit
   ) {
-    discoveryUrls = discoveryUrls.slice(0, options.productsLimit);
+    discoveryEntries = discoveryEntries.slice(0, options.productsLimit);
   }
+  return { entries: discoveryEntries, discovered, discoveredUrls };
+}
+
+/**
+ * Delisting detection for full runs: compares the complete discovery against
+ * the store's listings (see reconcileDiscoveredListings). Listings absent for
+ * DELIST_AFTER_RUNS consecutive full runs are marked delisted; skipped when
+ * discovery was partial, listings do not go to a database, or fewer than
+ * DELIST_MIN_COVERAGE percent of live listings were found.
+ * Failures are logged, never thrown.
+ * @param adapter - Site adapter configuration
+ * @param options - Runner configuration options
+ * @param plan - Plan from planSiteEntries
+ */
+export async function detectDelistings(
+  adapter: any,
+  options: RunnerOptions,
+  plan: SitePlan,
+): Promise<void> {
+  const siteKey = adapter.key;
+  const backend = await resolveBackend(options);
+  if (
+    options.runMode !== "full" ||
+    !plan.discoveredUrls ||
+    plan.discoveredUrls.length === 0 ||
+    !backend
+  ) {
+    return;
+  }
+  try {
+    const res = await backend.reconcileDiscoveredListings(
+      { name: siteKey, domain: adapter.baseHost },
+      plan.discoveredUrls.map((u) =>
+        canonicalProductUrl(u, adapter.normalizeUrl),
+      ),
+      {
+        afterRuns: Math.max(1, envInt("DELIST_AFTER_RUNS", 3)),
+        minCoverage: envInt("DELIST_MIN_COVERAGE", 50) / 100,
+      },
+    );
+    if (!res) {
+      console.warn(
+        `[warn] delisting skipped site=${siteKey}: discovery found too few of the stored listings (DELIST_MIN_COVERAGE)`,
+      );
+      return;
+    }
+    console.log(
+      `[info] delisting site=${siteKey} live=${res.live} missing=${res.missing} delisted=${res.delisted} revived=${res.revived}`,
+    );
+  } catch (e: any) {
+    console.warn(`[warn] delisting failed site=${siteKey}: ${e?.message || e}`);
+  }
+}
+
+/* -------------------------------- navigation -------------------------------- */
+
+/**
+ * The runner's single navigation per PDP: pre-navigation hook (which may
+ * swap in the URL to load), one goto, an optional settle wait, throttle check
+ * and (optionally) consent. Adapters receive the loaded page afterwards.
+ * @param adapter - Site adapter configuration
+ * @param page - Pooled Playwright page
+ * @param url - PDP URL
+ * @param runConsent - Run the adapter's consent handler after loading
+ * @returns Status, headers and final URL of the navigation
+ * @throws HttpError on 429/503 and 404/410
+ */
+async function loadPage(
+  adapter: SiteAdapter,
+  page: Page,
+  url: string,
+  runConsent: boolean,
+): Promise<PageResponse> {
+  const target = (await adapter.beforeNavigate?.(page, url)) || url;
+
+  const resp = await page.goto(target, {
+    waitUntil: adapter.pacing?.navWaitPdp || "domcontentloaded",
+    timeout: adapter.pacing?.pdpTimeoutMs ?? 30000,
+  });
+  const status = resp?.status() ?? 0;
+  const headers = resp?.headers() ?? {};
+  if (status === 429 || status === 503 || status === 404 || status === 410) {
+    throw new HttpError(status, url, parseRetryAfter(headers["retry-after"]));
+  }
+
+  const settle = adapter.pacing?.navSettlePdp;
+  if (settle) {
+    // en sida som aldrig blir helt tyst extraheras ändå
+    await page
+      .waitForLoadState(settle, {
+        timeout:
+          adapter.pacing?.navSettleTimeoutMs ??
+          adapter.pacing?.pdpTimeoutMs ??
+          30000,
+      })
+      .catch(() => {});
+  }
+
+  if (runConsent && adapter.consent) {
+    try {
+      await adapter.consent(page);
+    } catch {}
+  }
+
+  return { status, headers, finalUrl: page.url() || url };
+}
+
+/* ---------------------------------- runSite --------------------------------- */
+
+/**
+ * Main site extraction runner that orchestrates the entire process
+ * Handles URL discovery, product extraction, database storage, and output generation.
+ * Every call is logged as a scrape_runs row when listings go to a database.
+ * @param adapter - Site adapter configuration
+ * @param options - Runner configuration options
+ * @returns Counts for the run
+ */
+export async function runSite(
+  adapter: any,
+  options: RunnerOptions,
+): Promise<SiteRunStats> {
+  // samma runId efter krasch/omstart => fortsätt från sparad frontier
+  const checkpoint = await RunCheckpoint.open(options.runId, adapter.key);
+  if (checkpoint.completed) return completedRunStats(checkpoint);
+  const run = await RunRecord.open(
+    { name: adapter.key, domain: adapter.baseHost },
+    {
+      runId: options.runId,
+      jobId: options.jobId,
+      parentRunId: options.parentRunId,
+      runMode: options.runMode,
+    },
+    await resolveBackend(options),
+  );
+  try {
+    const stats = await crawlSite(adapter, options, run, checkpoint);
+    await run.close(stats);
+    return stats;
+  } catch (e) {
+    await run.close(null, e);
+    throw e;
+  }
+}
+
+/**
+ * Counts for a site an earlier attempt of the run already finished. A retried
+ * job (same run ID) skips such sites instead of crawling or failing them.
+ * @param checkpoint - Completed checkpoint
+ * @returns Counts taken from the checkpoint
+ */
+export function completedRunStats(checkpoint: RunCheckpoint): SiteRunStats {
+  console.log(
+    `[info] already completed site=${checkpoint.siteKey} runId=${checkpoint.runId} done=${checkpoint.doneCount} failed=${checkpoint.failedCount}`,
+  );
+  return {
+    siteKey: checkpoint.siteKey,
+    total: checkpoint.doneCount,
+    ok: checkpoint.doneCount,
+    fails: checkpoint.failedCount,
+    viaFastpath: 0,
+    viaBrowser: 0,
+    elapsedSec: 0,
+    writes: noWrites(),
+  };
+}
+
+/**
+ * Plans (or resumes) the frontier, crawls it and streams listings to the sinks
+ * @param adapter - Site adapter configuration
+ * @param options - Runner configuration options
+ * @param run - Run record collecting phase timings and failures
+ * @param checkpoint - The run's checkpoint for this site
+ * @returns Counts for the run
+ */
+async function crawlSite(
+  adapter: any,
+  options: RunnerOptions,
+  run: RunRecord,
+  checkpoint: RunCheckpoint,
+): Promise<SiteRunStats> {
+  const t0 = performance.now();
+
+  const siteKey = adapter.key;
+  const siteHost = adapter.baseHost;
+  const store = { name: siteKey, domain: siteHost };
+
+  let discoveryEntries: SitemapEntry[];
+  if (checkpoint.resumed) {
+    discoveryEntries = checkpoint.remaining();
+    run.planned = discoveryEntries.length;
+    console.log(
+      `[info] resume site=${siteKey} runId=${options.runId} done=${checkpoint.doneCount} failed=${checkpoint.failedCount} remaining=${discoveryEntries.length}`,
+    );
+  } else {
+    const plan = options.entries
+      ? {
+          entries: options.entries,
+          discovered: options.entries.length,
+          discoveredUrls: null,
+        }
+      : await run.time("planning", () => planSiteEntries(adapter, options));
+    discoveryEntries = plan.entries;
+    run.discovered = plan.discovered;
+    run.planned = discoveryEntries.length;
+    await checkpoint.start(discoveryEntries);
+    await run.time("delisting", () =>
+      detectDelistings(adapter, options, plan),
+    );
+  }
+
+  const lastmodByUrl = new Map(
+    discoveryEntries.map((e) => [e.loc, e.lastmod ?? null]),
+  );
+  const discoveryUrls = discoveryEntries.map((e) => e.loc);
 
   if (discoveryUrls.length === 0) {
     const dur = ((performance.now() - t0) / 1000).toFixed(2);
     console.log(
-      `[info] done site=${siteKey} ok=0 fails=0 wrote=0 visited=0 priceUpdates=0 elapsedSec=${dur}`,
+      `[info] done site=${siteKey} ok=0 fails=0 inserted=0 visited=0 priceUpdates=0 elapsedSec=${dur}`,
     );
-    return;
+    return {
+      siteKey,
+      total: 0,
+      ok: 0,
+      fails: 0,
+      viaFastpath: 0,
+      viaBrowser: 0,
+      elapsedSec: Number(dur),
+      writes: noWrites(),
+    };
   }
 
-  const browser = await launchBrowser();
+  const limiter = registerHostLimiter(
+    siteHost,
+    adapter.pacing,
+    options.rateShare,
+  );
+  console.log(
+    `[info] pacing site=${siteKey} rps=${limiter
+      .currentRps()
+      .toFixed(2)} burst=${limiter.burst} maxRps=${
+      adapter.pacing?.hostMaxNavRps ?? "default"
+    }`,
+  );
 
   let ok = 0;
   let fails = 0;
-  let batchCount = 0;
 
   const PROGRESS_EVERY = Math.max(0, options.progressEvery || 0);
   const PDP_LOG = /^true|1$/i.test(process.env.PDP_LOG || "false");
@@ -132,138 +501,323 @@ export async function runSite(adapter: any, options: RunnerOptions) {
     1,
     Math.min(adapter.pacing?.pdpConcurrency || 1, 3),
   ); // cap at 3 to avoid OOM
-  const limit = pLimit(concurrency);
-  let consecutiveErrors = 0;
-  const BATCH_SIZE = 50; // flush every 50 products
-
-  const scrapedProducts: Array<{
-    productName: string;
-    ean?: string | null;
-    price: number;
-    currency: string;
-    inStock: boolean;
-    productUrl: string;
-    imageUrl?: string | null;
-    store: { name: string; domain: string };
-    rawData?: any;
-  }> = [];
+  const gate = new Semaphore(concurrency);
+  const errors = new ErrorRateController(
+    siteKey,
+    adapter.pacing,
+    limiter,
+    gate,
+    concurrency,
+  );
+  // listings strömmas till sinken i begränsade batchar; först när en batch
+  // är skriven räknas dess URL:er som crawlade/klara
+  const sinkNames = resolveSinks(options);
+  // crawl-state ligger i databasen – utan databas-sink (bara filer) hoppas den över
+  const backend = await storageBackendFor(sinkNames);
+  const markCommitted = async (urls: string[]) => {
+    if (backend) {
+      try {
+        await backend.markUrlsCrawled(
+          store,
+          urls.map((url) => ({ url, lastmod: lastmodByUrl.get(url) ?? null })),
+        );
+      } catch (e: any) {
+        console.warn(
+          `[warn] could not persist crawl state site=${siteKey}: ${
+            e?.message || e
+          }`,
+        );
+      }
+    }
+    try {
+      await checkpoint.markDone(urls);
+    } catch (e: any) {
+      console.warn(
+        `[warn] could not write checkpoint site=${siteKey}: ${e?.message || e}`,
+      );
+    }
+  };
+  const sink = new ListingPipeline(
+    await createSink(sinkNames, {
+      outDirBase: options.outDirBase,
+      siteKey,
+      runId: options.runId,
+      scrapeRunId: run.id,
+    }),
+    {
+      onFlushed: (urls, res) => {
+        if (PDP_LOG) {
+          console.log(
+            `[sink][${siteKey}] flushed inserted=${res.inserted} updated=${res.updated} skipped=${res.skipped}`,
+          );
+        }
+        return markCommitted(urls);
+      },
+    },
+  );
 
-  const tasks = discoveryUrls.map((url) =>
-    limit(async () => {
-      // simple error cooldown
-      if (consecutiveErrors >= 5) {
-        const cooldownMs = (adapter.pacing?.cooldownSeconds ?? 120) * 1000;
-        await sleep(cooldownMs);
-        consecutiveErrors = 0;
+  // en browser + en context per sajt; sidor återanvänds via poolen
+  let browser: Browser | null = null;
+  let poolPromise: Promise<PagePool> | null = null;
+  const getPool = () =>
+    (poolPromise ??= (async () => {
+      browser = await launchBrowser();
+      const context = await createSiteContext(browser, adapter);
+      return new PagePool(context, {
+        setupPage: (page) => throttleNavigation(page, limiter),
+      });
+    })());
+  const closeBrowser = async () => {
+    if (poolPromise) await (await poolPromise).close().catch(() => {});
+    if (browser) await browser.close().catch(() => {});
+  };
+
+  // consent klickas en gång per context och sparas till nästa körning
+  let consentDone = !adapter.consent;
+  const persistConsent = async (pool: PagePool) => {
+    try {
+      await saveStorageState(pool.context, siteKey);
+    } catch (e: any) {
+      console.warn(
+        `[warn] could not save storage state site=${siteKey}: ${e?.message || e}`,
+      );
+    }
+  };
+
+  const fastpath = usesFastpath(adapter);
+  const browserFallback = allowsBrowserFallback(adapter);
+  let viaFastpath = 0;
+  let viaBrowser = 0;
+
+  // borttagna PDP:er (404/410 eller omdirigering bort) avlistas efter körningen
+  const gone: Array<{
+    url: string;
+    reason: Exclude<DelistReason, "sitemap">;
+  }> = [];
+  // produkter som inte klarar valideringen sparas som rejects, inte listings;
+  // raden skrivs direkt, innan checkpointen markerar URL:en som misslyckad
+  let rejected = 0;
+  const saveReject = async (reject: ListingReject) => {
+    rejected++;
+    if (!backend) return;
+    try {
+      await backend.recordListingRejects(store, [reject], run.id);
+    } catch (e: any) {
+      console.warn(
+        `[warn] could not save reject site=${siteKey} url=${reject.url}: ${
+          e?.message || e
+        }`,
+      );
+    }
+  };
+  const validate = async (
+    url: string,
+    product: Product,
+  ): Promise<ValidProduct> => {
+    try {
+      return validateScrapedProduct(product, siteHost);
+    } catch (e) {
+      if (e instanceof ValidationError) {
+        await saveReject({
+          url: canonicalProductUrl(url, adapter.normalizeUrl),
+          field: e.field ?? null,
+          message: e.message,
+          rawData: product,
+        });
+      }
+      throw e;
+    }
+  };
+  const redirectedAway = (url: string, finalUrl: string) =>
+    canonicalProductUrl(finalUrl, adapter.normalizeUrl) !==
+    canonicalProductUrl(url, adapter.normalizeUrl);
+
+  const extractWithBrowser = async (url: string): Promise<Product> => {
+    const pool = await getPool();
+    const page = await pool.acquire();
+    let broken = false;
+    try {
+      const runConsent = !consentDone;
+      const response = await loadPage(adapter, page, url, runConsent);
+      if (runConsent && !consentDone) {
+        consentDone = true;
+        await persistConsent(pool);
+      }
+      const redirected = redirectedAway(url, response.finalUrl);
+      let product: Product;
+      try {
+        product = adapter.customExtract
+          ? await adapter.customExtract(page, url, response)
+          : await extractStandard(adapter, page, url);
+      } catch (e) {
+        if (redirected && e instanceof ExtractionError) {
+          throw new RedirectedError(url, response.finalUrl);
+        }
+        throw e;
+      }
+      if (redirected && (!product.name || product.price == null)) {
+        throw new RedirectedError(url, response.finalUrl);
       }
+      viaBrowser++;
+      return product;
+    } catch (e) {
+      // sidan kan vara i okänt läge efter fel – släng den
+      broken =
+        !(e instanceof ExtractionError) &&
+        !(e instanceof HttpError && e.isGone);
+      throw e;
+    } finally {
+      await pool.release(page, broken);
+    }
+  };
 
-      const page = await browser.newPage();
-      await optimizePage(page);
+  const extractProduct = async (url: string): Promise<Product> => {
+    if (!fastpath) return extractWithBrowser(url);
 
-      // retry loop
+    const fp = await extractFastpath(adapter, url);
+    if (fp.missing.length === 0) {
+      viaFastpath++;
+      return fp.product;
+    }
+    if (redirectedAway(url, fp.finalUrl)) {
+      throw new RedirectedError(url, fp.finalUrl);
+    }
+    if (!browserFallback) {
+      throw new ExtractionError(
+        `fastpath missing ${fp.missing.join(",")} (browser fallback disabled)`,
+        fp.missing,
+      );
+    }
+    return extractWithBrowser(url);
+  };
+
+  const tasks = discoveryUrls.map((url) =>
+    gate.run(async () => {
       const maxRetries = Math.max(0, adapter.pacing?.fetchRetries ?? 3);
       const baseDelayMs = Math.max(0, adapter.pacing?.fetchRetryBaseMs ?? 800);
-      let lastErr: any = null;
-      try {
-        for (let attempt = 0; attempt <= maxRetries; attempt++) {
-          try {
-            const resp = await page.goto(url, {
-              waitUntil: adapter.pacing?.navWaitPdp || "domcontentloaded",
-              timeout: adapter.pacing?.pdpTimeoutMs ?? 30000,
-            });
-            const status = resp?.status();
-            if (status === 429 || status === 503) {
-              const ra = Number(resp?.headers()["retry-after"] || "0");
-              const wait =
-                ra > 0 ? ra * 1000 : baseDelayMs * Math.pow(2, attempt);
-              await sleep(wait);
-              throw new Error(`HTTP ${status}`);
-            }
-
-            const product: Product = adapter.customExtract
-              ? await adapter.customExtract(page, url)
-              : await extractStandard(adapter, page, url);
-
-            scrapedProducts.push({
-              productName: product.name || "",
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const product = await validate(url, await extractProduct(url));
+
+          // väntar om sinken ligger efter (backpressure)
+          await sink.push({
+            url,
+            listing: {
+              productName: product.name,
               ean: product.ean ? sanitizeEan(product.ean) || null : null,
-              price: product.price ?? 0,
+              price: product.price,
+              originalPrice: product.originalPrice ?? null,
+              brand: product.brand ?? null,
               currency: product.currency || "SEK",
-              inStock: !!product.inStock,
-              productUrl: product.url,
+              inStock: product.inStock ?? null,
+              productUrl: canonicalProductUrl(
+                product.url,
+                adapter.normalizeUrl,
+              ),
               imageUrl: product.imageUrl || null,
-              store: { name: siteKey, domain: siteHost },
+              store,
               rawData: product,
-            });
+            },
+          });
+
+          ok++;
+          errors.record(true);
+          options.onProgress?.({ ok, fails });
 
-            ok++;
-            consecutiveErrors = 0;
-            batchCount++;
-
-            // batch flush to avoid OOM
-            if (batchCount >= BATCH_SIZE) {
-              await saveScrapedProductListings(scrapedProducts);
-              batchCount = 0;
-            }
-
-            if (PDP_LOG) {
-              console.log(
-                `[pdp][${siteKey}] ${product.name} | price=${product.price} | original=${product.originalPrice}`,
-              );
-            }
-
-            if (PROGRESS_EVERY > 0 && ok % PROGRESS_EVERY === 0) {
-              const elapsed = (performance.now() - t0) / 1000;
-              const total = discoveryUrls.length;
-              const rate = ok > 0 ? ok / elapsed : 0;
-              const remaining = Math.max(0, total - ok);
-              const eta = rate > 0 ? remaining / rate : 0;
-              console.log(
-                `[progress][${siteKey}] ${ok}/${total} | elapsed=${formatDuration(
-                  elapsed,
-                )} | eta=${formatDuration(eta)} | rate=${rate.toFixed(1)}/s`,
-              );
-            }
-
-            return; // success
-          } catch (e: any) {
-            lastErr = e;
-            if (attempt < maxRetries) {
-              const jitter = Math.floor(Math.random() * 250);
-              const wait = baseDelayMs * Math.pow(2, attempt) + jitter;
-              await sleep(wait);
-              continue;
-            }
-            throw e;
+          if (PDP_LOG) {
+            console.log(
+              `[pdp][${siteKey}] ${product.name} | price=${product.price} | original=${product.originalPrice}`,
+            );
           }
+
+          if (PROGRESS_EVERY > 0 && ok % PROGRESS_EVERY === 0) {
+            const elapsed = (performance.now() - t0) / 1000;
+            const total = discoveryUrls.length;
+            const rate = ok > 0 ? ok / elapsed : 0;
+            const remaining = Math.max(0, total - ok);
+            const eta = rate > 0 ? remaining / rate : 0;
+            console.log(
+              `[progress][${siteKey}] ${ok}/${total} | elapsed=${formatDuration(
+                elapsed,
+              )} | eta=${formatDuration(eta)} | rate=${rate.toFixed(
+                1,
+              )}/s | targetRps=${limiter
+                .currentRps()
+                .toFixed(2)} | concurrency=${gate.limit}`,
+            );
+          }
+
+          return; // success
+        } catch (e: any) {
+          // sidan gav ingen (giltig) produkt – ingen idé att försöka igen
+          const isGone = e instanceof HttpError && e.isGone;
+          const retryable =
+            !(e instanceof ExtractionError) &&
+            !(e instanceof ValidationError) &&
+            !isGone;
+          if (retryable) errors.record(false);
+          if (retryable && attempt < maxRetries) {
+            const jitter = Math.floor(Math.random() * 250);
+            const wait =
+              e instanceof HttpError && e.retryAfterSec
+                ? e.retryAfterSec * 1000
+                : baseDelayMs * Math.pow(2, attempt) + jitter;
+            await sleep(wait);
+            continue;
+          }
+          fails++;
+          run.recordError(e);
+          if (isGone || e instanceof RedirectedError) {
+            gone.push({
+              url: canonicalProductUrl(url, adapter.normalizeUrl),
+              reason: isGone ? "not_found" : "redirect",
+            });
+          }
+          options.onProgress?.({ ok, fails });
+          console.warn(`[warn] PDP fail ${url}: ${e?.message || e}`);
+          await checkpoint.markFailed(url).catch(() => {});
+          return;
         }
-      } catch (err: any) {
-        fails++;
-        consecutiveErrors++;
-        console.warn(
-          `[warn] PDP fail ${url}: ${lastErr?.message || err?.message || err}`,
-        );
-      } finally {
-        await page.close().catch(() => {});
       }
     }),
   );
 
   try {
-    await Promise.all(tasks);
+    await run.time("crawl", () => Promise.all(tasks));
   } finally {
-    await browser.close().catch(() => {});
+    await closeBrowser();
   }
 
   // final flush
-  if (scrapedProducts.length > 0) {
-    await saveScrapedProductListings(scrapedProducts);
+  const written = await run.time("flush", () => sink.close());
+
+  let delisted = 0;
+  if (backend && gone.length > 0) {
+    try {
+      delisted = await backend.markListingsGone(store, gone);
+    } catch (e: any) {
+      console.warn(
+        `[warn] could not mark gone listings site=${siteKey}: ${e?.message || e}`,
+      );
+    }
   }
 
   const dur = ((performance.now() - t0) / 1000).toFixed(2);
   console.log(
-    `[info] done site=${siteKey} ok=${ok} fails=${fails} wrote=${scrapedProducts.length} elapsedSec=${dur}`,
+    `[info] done site=${siteKey} ok=${ok} fails=${fails} rejected=${rejected} inserted=${written.inserted} updated=${written.updated} skipped=${written.skipped} priceChanges=${written.priceChanges} stockChanges=${written.stockChanges} priceFlags=${written.priceFlags} writeFailed=${written.failed} gone=${gone.length} delisted=${delisted} fastpath=${viaFastpath} browser=${viaBrowser} elapsedSec=${dur}`,
   );
+
+  return {
+    siteKey,
+    total: discoveryUrls.length,
+    ok,
+    fails,
+    viaFastpath,
+    viaBrowser,
+    elapsedSec: Number(dur),
+    writes: written,
+  };
 }
 
 export default runSite;
@@ -0,0 +1,309 @@
+/**
+ * Sharded execution strategy (frontier split over isolated child runs)
+ */
+
+import { fork } from "node:child_process";
+import path from "node:path";
+import { performance } from "node:perf_hooks";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+import { maxBrowserPages, reservePageSlots } from "../browser/index";
+import { envInt } from "../config/env";
+import type { SiteAdapter, SitemapEntry } from "../types/index";
+import { formatDuration, Semaphore } from "../utils/index";
+import { RunCheckpoint } from "./checkpoint";
+import { allowsBrowserFallback, usesFastpath } from "./fastpath";
+import { RunRecord } from "./run-record";
+import {
+  detectDelistings,
+  planSiteEntries,
+  completedRunStats,
+  resolveBackend,
+  runSite,
+  type RunnerOptions,
+  type SiteRunStats,
+} from "./runner";
+
+/** Work for one shard, sent to the child process / worker thread */
+export interface ShardTask {
+  siteKey: string;
+  shardId: number;
+  /** The shard's share of the parent's MAX_BROWSER_PAGES */
+  maxPages: number;
+  options: Omit<RunnerOptions, "onProgress">;
+}
+
+/** Messages from a shard back to the parent */
+export type ShardMessage =
+  | { type: "progress"; shardId: number; ok: number; fails: number }
+  | { type: "result"; shardId: number; stats: SiteRunStats }
+  | { type: "error"; shardId: number; error: string };
+
+interface ShardOutcome {
+  shardId: number;
+  size: number;
+  ok: number;
+  fails: number;
+  stats?: SiteRunStats;
+  error?: string;
+}
+
+// dist/shard-worker.js i build, src/shard-worker.ts under tsx
+const here = fileURLToPath(import.meta.url);
+const SHARD_ENTRY = path.resolve(
+  path.dirname(here),
+  "../../shard-worker" + path.extname(here),
+);
+
+/**
+ * Runs one shard isolated in a child process or worker thread
+ * @param task - Shard task
+ * @param isolation - "process" or "worker"
+ * @param onMessage - Receives progress/result messages
+ * @returns Exit code (0 = clean exit)
+ */
+function spawnShard(
+  task: ShardTask,
+  isolation: "process" | "worker",
+  onMessage: (msg: ShardMessage) => void,
+): Promise<number> {
+  const env = { ...process.env, SHARD_ID: String(task.shardId) };
+
+  if (isolation === "worker") {
+    return new Promise((resolve) => {
+      const worker = new Worker(SHARD_ENTRY, { workerData: task, env });
+      worker.on("message", onMessage);
+      worker.on("error", (e) =>
+        onMessage({ type: "error", shardId: task.shardId, error: String(e) }),
+      );
+      worker.on("exit", (code) => resolve(code));
+    });
+  }
+
+  return new Promise((resolve) => {
+    const child = fork(SHARD_ENTRY, [], { env, stdio: "inherit" });
+    child.on("message", (msg) => onMessage(msg as ShardMessage));
+    child.on("error", (e) =>
+      onMessage({ type: "error", shardId: task.shardId, error: String(e) }),
+    );
+    child.on("exit", (code) => resolve(code ?? 1));
+    child.send(task);
+  });
+}
+
+/**
+ * Splits the site's frontier into chunks and runs them as isolated shards
+ * (`adapter.execution`: chunkSize, isolation, parallelShards). Discovery and
+ * planning happen once here; progress and counts are aggregated over shards.
+ * The parent run gets its own scrape_runs row with the totals; the shards'
+ * rows point at it through parent_run_id.
+ * @param adapter - Site adapter configuration
+ * @param options - Runner configuration options
+ * @returns Aggregated counts, including how many shards failed
+ */
+export async function runSharded(
+  adapter: SiteAdapter,
+  options: RunnerOptions,
+): Promise<SiteRunStats> {
+  // frontier sparas så att en omstart med samma runId ger samma shards
+  const checkpoint = await RunCheckpoint.open(options.runId, adapter.key);
+  if (checkpoint.completed) return completedRunStats(checkpoint);
+  const run = await RunRecord.open(
+    { name: adapter.key, domain: adapter.baseHost },
+    { runId: options.runId, jobId: options.jobId, runMode: options.runMode },
+    await resolveBackend(options),
+  );
+  try {
+    const stats = await shardSite(adapter, options, run, checkpoint);
+    await run.close(stats);
+    return stats;
+  } catch (e) {
+    await run.close(null, e);
+    throw e;
+  }
+}
+
+async function shardSite(
+  adapter: SiteAdapter,
+  options: RunnerOptions,
+  run: RunRecord,
+  checkpoint: RunCheckpoint,
+): Promise<SiteRunStats> {
+  const t0 = performance.now();
+  const siteKey = adapter.key;
+  const cfg = adapter.execution ?? {};
+
+  let entries: SitemapEntry[];
+  if (checkpoint.resumed) {
+    entries = checkpoint.remaining();
+  } else {
+    const plan = await run.time("planning", () =>
+      planSiteEntries(adapter, options),
+    );
+    entries = plan.entries;
+    run.discovered = plan.discovered;
+    await checkpoint.start(entries);
+    await run.time("delisting", () =>
+      detectDelistings(adapter, options, plan),
+    );
+  }
+  run.planned = entries.length;
+
+  const chunkSize = Math.max(
+    1,
+    cfg.chunkSize ?? envInt("SHARD_CHUNK_SIZE", 1000),
+  );
+  const chunks: SitemapEntry[][] = [];
+  for (let i = 0; i < entries.length; i += chunkSize) {
+    chunks.push(entries.slice(i, i + chunkSize));
+  }
+  const parallel = Math.max(1, Math.min(cfg.parallelShards ?? 1, chunks.length));
+  const isolation = cfg.isolation ?? "process";
+  // varje shard har egen process/tråd och därmed egen sidpool: dela taket
+  const opensPages = !usesFastpath(adapter) || allowsBrowserFallback(adapter);
+  const maxPages = Math.max(1, Math.floor(maxBrowserPages() / parallel));
+  console.log(
+    `[info] sharded site=${siteKey} urls=${entries.length} shards=${chunks.length} chunkSize=${chunkSize} parallel=${parallel} isolation=${isolation}`,
+  );
+
+  const outcomes: ShardOutcome[] = chunks.map((c, i) => ({
+    shardId: i + 1,
+    size: c.length,
+    ok: 0,
+    fails: 0,
+  }));
+  const progressEvery = Math.max(0, options.progressEvery || 0);
+  let finished = 0;
+  let lastLogged = 0;
+
+  const logProgress = () => {
+    const done = outcomes.reduce((n, o) => n + o.ok + o.fails, 0);
+    if (progressEvery <= 0 || done - lastLogged < progressEvery) return;
+    lastLogged = done;
+    const ok = outcomes.reduce((n, o) => n + o.ok, 0);
+    const elapsed = (performance.now() - t0) / 1000;
+    const rate = done > 0 ? done / elapsed : 0;
+    const eta = rate > 0 ? (entries.length - done) / rate : 0;
+    console.log(
+      `[progress][${siteKey}] ${done}/${entries.length} ok=${ok} | shards ${finished}/${
+        chunks.length
+      } | elapsed=${formatDuration(elapsed)} | eta=${formatDuration(
+        eta,
+      )} | rate=${rate.toFixed(1)}/s`,
+    );
+  };
+
+  // callbacks går inte över process-/trådgränsen
+  const { onProgress: _onProgress, ...baseOptions } = options;
+  const gate = new Semaphore(parallel);
+  await run.time("shards", () =>
+    Promise.all(
+      chunks.map((chunk, i) =>
+        gate.run(async () => {
+          const outcome = outcomes[i];
+          const task: ShardTask = {
+            siteKey,
+            shardId: outcome.shardId,
+            maxPages,
+            options: {
+              ...baseOptions,
+              runId: `${options.runId}-shard-${outcome.shardId}`,
+              parentRunId: run.id,
+              entries: chunk,
+              productsLimit: 0,
+              rateShare: (options.rateShare ?? 1) / parallel,
+            },
+          };
+          console.log(
+            `[info] shard start site=${siteKey} shard=${outcome.shardId}/${chunks.length} size=${chunk.length}`,
+          );
+
+          // shardens sidor räknas mot den här processens tak
+          const releasePages = await reservePageSlots(
+            opensPages ? maxPages : 0,
+          );
+          let code: number;
+          try {
+            code = await spawnShard(task, isolation, (msg) => {
+              if (msg.type === "progress") {
+                outcome.ok = msg.ok;
+                outcome.fails = msg.fails;
+                logProgress();
+              } else if (msg.type === "result") {
+                outcome.stats = msg.stats;
+              } else {
+                outcome.error = msg.error;
+              }
+            });
+          } finally {
+            releasePages();
+          }
+          finished++;
+
+          if (outcome.stats) {
+            outcome.ok = outcome.stats.ok;
+            outcome.fails = outcome.stats.fails;
+          } else {
+            // kraschad shard: allt som inte hann bli ok räknas som fel
+            outcome.error ??= `exit code ${code}`;
+            outcome.fails = outcome.size - outcome.ok;
+            console.warn(
+              `[warn] shard failed site=${siteKey} shard=${outcome.shardId}/${chunks.length}: ${outcome.error}`,
+            );
+          }
+        }),
+      ),
+    ),
+  );
+
+  // alla shards rena => hela frontiern är klar (en omstart har inget kvar);
+  // annars ligger den kvar så att en omstart ger samma shards
+  if (outcomes.every((o) => o.stats && o.fails === 0)) {
+    await checkpoint.markDone(entries.map((e) => e.loc));
+  }
+
+  const sum = (f: (o: ShardOutcome) => number) =>
+    outcomes.reduce((n, o) => n + f(o), 0);
+  const stats: SiteRunStats = {
+    siteKey,
+    total: entries.length,
+    ok: sum((o) => o.ok),
+    fails: sum((o) => o.fails),
+    viaFastpath: sum((o) => o.stats?.viaFastpath ?? 0),
+    viaBrowser: sum((o) => o.stats?.viaBrowser ?? 0),
+    elapsedSec: Number(((performance.now() - t0) / 1000).toFixed(2)),
+    writes: {
+      inserted: sum((o) => o.stats?.writes.inserted ?? 0),
+      updated: sum((o) => o.stats?.writes.updated ?? 0),
+      skipped: sum((o) => o.stats?.writes.skipped ?? 0),
+      failed: sum((o) => o.stats?.writes.failed ?? 0),
+      flushes: sum((o) => o.stats?.writes.flushes ?? 0),
+      priceChanges: sum((o) => o.stats?.writes.priceChanges ?? 0),
+      stockChanges: sum((o) => o.stats?.writes.stockChanges ?? 0),
+      priceFlags: sum((o) => o.stats?.writes.priceFlags ?? 0),
+    },
+    shards: {
+      total: chunks.length,
+      failed: outcomes.filter((o) => !o.stats).length,
+    },
+  };
+  console.log(
+    `[info] done site=${siteKey} ok=${stats.ok} fails=${stats.fails} inserted=${stats.writes.inserted} skipped=${stats.writes.skipped} shards=${stats.shards!.total} failedShards=${stats.shards!.failed} elapsedSec=${stats.elapsedSec}`,
+  );
+  return stats;
+}
+
+/**
+ * Runs a site with the execution strategy its adapter asks for
+ * @param adapter - Site adapter configuration
+ * @param options - Runner configuration options
+ * @returns Counts for the run
+ */
+export function executeSite(
+  adapter: SiteAdapter,
+  options: RunnerOptions,
+): Promise<SiteRunStats> {
+  return adapter.execution?.strategy === "sharded"
+    ? runSharded(adapter, options)
+    : runSite(adapter, options);
+}
@@ -8,8 +8,9 @@ import type { Product, SiteAdapter } from "../types/index";
 /**
  * Extracts product information using standard JSON-LD and DOM fallback methods
  * First attempts to parse structured data from JSON-LD scripts, then falls back to DOM selectors
+ * Expects a page already loaded by the runner (navigation and consent are done there)
  * @param adapter - Site adapter configuration
- * @param page - Playwright page instance
+ * @param page - Playwright page instance, already at the PDP
  * @param url - URL being processed
  * @returns Extracted product information
  */
@@ -18,17 +19,6 @@ export async function extractStandard(
   page: Page,
   url: string,
 ): Promise<Product> {
-  await page.goto(url, {
-    waitUntil: adapter.pacing?.navWaitPdp || "domcontentloaded",
-    timeout: adapter.pacing?.pdpTimeoutMs ?? 30000,
-  });
-
-  if (adapter.consent) {
-    try {
-      await adapter.consent(page);
-    } catch {}
-  }
-
   const ldHandles = await page
     .locator('script[type="application/ld+json"]')
     .all();
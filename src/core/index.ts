@@ -23,6 +23,18 @@ export * from "./product/index";
 // Storage
 export * from "./storage";
 
+// Storage backends
+export * from "./backends/index";
+
+// Catalogue
+export * from "./catalogue";
+
+// Matching
+export * from "./matching/index";
+
+// Sinks
+export * from "./sinks/index";
+
 // Utils
 export * from "./utils/index";
 
@@ -0,0 +1,96 @@
+/**
+ * In-memory blocking index over catalogue products, so each listing is only
+ * scored against products that share a model number or name tokens
+ */
+
+import { extractFeatures, type MatchFeatures } from "./normalize";
+import { scoreFeatures, type MatchScore, type MatchSubject } from "./score";
+
+/** Best catalogue match for a listing */
+export interface CandidateMatch extends MatchScore {
+  productId: number;
+}
+
+/** A catalogue product prepared for matching */
+export interface IndexedProduct {
+  id: number;
+  features: MatchFeatures;
+}
+
+// tokens som förekommer i fler produkter än så här säger inget ("svart", "set")
+const MAX_POSTINGS = 2000;
+
+export class CandidateIndex {
+  private readonly products = new Map<number, IndexedProduct>();
+  private readonly byModel = new Map<string, number[]>();
+  private readonly byToken = new Map<string, number[]>();
+
+  /**
+   * @param products - Catalogue products with name and brand
+   */
+  constructor(products: Array<MatchSubject & { id: number }>) {
+    for (const p of products) {
+      if (!p.name) continue;
+      const features = extractFeatures(p);
+      this.products.set(p.id, { id: p.id, features });
+      for (const m of features.models) push(this.byModel, m, p.id);
+      for (const t of features.tokens) push(this.byToken, t, p.id);
+      if (features.brand) push(this.byToken, features.brand, p.id);
+    }
+  }
+
+  get size(): number {
+    return this.products.size;
+  }
+
+  /**
+   * Products most likely to match, by shared model numbers and tokens
+   * @param features - Listing features
+   * @param limit - Max candidates returned
+   * @returns Candidates, best first
+   */
+  candidates(features: MatchFeatures, limit = 25): IndexedProduct[] {
+    const hits = new Map<number, number>();
+    const add = (ids: number[] | undefined, weight: number) => {
+      if (!ids || ids.length > MAX_POSTINGS) return;
+      for (const id of ids) hits.set(id, (hits.get(id) ?? 0) + weight);
+    };
+    for (const m of features.models) add(this.byModel.get(m), 3);
+    for (const t of features.tokens) add(this.byToken.get(t), 1);
+    if (features.brand) add(this.byToken.get(features.brand), 1);
+
+    return [...hits]
+      .filter(([, w]) => w >= 2)
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, limit)
+      .map(([id]) => this.products.get(id)!);
+  }
+
+  /**
+   * Scores the listing against its candidates
+   * @param listing - Listing name and brand
+   * @param exclude - Products not to consider (e.g. rejected in review)
+   * @returns Highest-confidence match, or null when there are no candidates
+   */
+  bestMatch(
+    listing: MatchSubject,
+    exclude?: (productId: number) => boolean,
+  ): CandidateMatch | null {
+    const features = extractFeatures(listing);
+    let best: CandidateMatch | null = null;
+    for (const p of this.candidates(features)) {
+      if (exclude?.(p.id)) continue;
+      const score = scoreFeatures(features, p.features);
+      if (!best || score.confidence > best.confidence) {
+        best = { productId: p.id, ...score };
+      }
+    }
+    return best;
+  }
+}
+
+function push(map: Map<string, number[]>, key: string, id: number) {
+  const ids = map.get(key);
+  if (ids) ids.push(id);
+  else map.set(key, [id]);
+}
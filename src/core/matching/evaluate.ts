@@ -0,0 +1,66 @@
+/**
+ * Offline evaluation of the matcher against labelled pairs
+ */
+
+import { MATCH_FIXTURES, type MatchFixture } from "./fixtures";
+import {
+  decideMatch,
+  matchThresholds,
+  scoreMatch,
+  type MatchDecision,
+  type MatchThresholds,
+} from "./score";
+
+/** Per-pair result */
+export interface FixtureResult {
+  fixture: MatchFixture;
+  confidence: number;
+  decision: MatchDecision;
+  reasons: string[];
+  /** Linked although different, or "none" although the same */
+  wrong: boolean;
+}
+
+/** Aggregate result */
+export interface MatcherEvaluation {
+  results: FixtureResult[];
+  linked: number;
+  review: number;
+  /** Pairs auto-linked that are not the same product */
+  falseLinks: number;
+  /** Same-product pairs that were neither linked nor queued */
+  missed: number;
+  /** Share of auto-links that are correct (1 when nothing was linked) */
+  precision: number;
+}
+
+/**
+ * Scores every fixture pair
+ * @param fixtures - Labelled pairs (default MATCH_FIXTURES)
+ * @param thresholds - Link/review thresholds (default from env)
+ * @returns Per-pair and aggregate results
+ */
+export function evaluateMatcher(
+  fixtures: MatchFixture[] = MATCH_FIXTURES,
+  thresholds: MatchThresholds = matchThresholds(),
+): MatcherEvaluation {
+  const results = fixtures.map((fixture) => {
+    const { confidence, reasons } = scoreMatch(fixture.a, fixture.b);
+    const decision = decideMatch(confidence, thresholds);
+    const wrong = fixture.same ? decision === "none" : decision === "link";
+    return { fixture, confidence, decision, reasons, wrong };
+  });
+
+  const linked = results.filter((r) => r.decision === "link");
+  const falseLinks = linked.filter((r) => !r.fixture.same).length;
+  return {
+    results,
+    linked: linked.length,
+    review: results.filter((r) => r.decision === "review").length,
+    falseLinks,
+    missed: results.filter((r) => r.fixture.same && r.decision === "none")
+      .length,
+    precision:
+      linked.length === 0 ? 1 : (linked.length - falseLinks) / linked.length,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Hand-labelled listing pairs for evaluating the matcher offline
+ * (`npm run match-listings -- eval`). Add a pair whenever a mismatch is
+ * found in review.
+ */
+
+import type { MatchSubject } from "./score";
+
+/** Two listings and whether they are the same product */
+export interface MatchFixture {
+  a: MatchSubject;
+  b: MatchSubject;
+  same: boolean;
+  note?: string;
+}
+
+export const MATCH_FIXTURES: MatchFixture[] = [
+  {
+    a: { name: "Sony WH-1000XM5 trådlösa hörlurar, svart", brand: "Sony" },
+    b: { name: "SONY WH1000XM5 Wireless Noise Cancelling Headphones Black", brand: "SONY" },
+    same: true,
+  },
+  {
+    a: { name: "Sony WH-1000XM5 trådlösa hörlurar", brand: "Sony" },
+    b: { name: "Sony WH-1000XM4 trådlösa hörlurar", brand: "Sony" },
+    same: false,
+    note: "föregående modell",
+  },
+  {
+    a: { name: "Samsung Galaxy S23 5G 128GB Phantom Black", brand: "Samsung" },
+    b: { name: "Samsung Galaxy S23 128 GB – Phantom Black", brand: null },
+    same: true,
+  },
+  {
+    a: { name: "Samsung Galaxy S23 128GB Phantom Black", brand: "Samsung" },
+    b: { name: "Samsung Galaxy S23 256GB Phantom Black", brand: "Samsung" },
+    same: false,
+    note: "annan lagringsstorlek",
+  },
+  {
+    a: { name: "Apple AirPods Pro (2:a generationen) MagSafe USB‑C", brand: "Apple" },
+    b: { name: "AirPods Pro 2nd generation with MagSafe Case USB-C", brand: "Apple" },
+    same: true,
+  },
+  {
+    a: { name: "Logitech MX Master 3S trådlös mus grafit", brand: "Logitech" },
+    b: { name: "Logitech MX Master 3S Performance Wireless Mouse Graphite", brand: "Logitech" },
+    same: true,
+  },
+  {
+    a: { name: "Logitech MX Master 3S", brand: "Logitech" },
+    b: { name: "Logitech MX Keys S tangentbord", brand: "Logitech" },
+    same: false,
+  },
+  {
+    a: { name: 'LG OLED55C3 55" 4K OLED TV', brand: "LG" },
+    b: { name: "LG OLED55C36LC 55 tum 4K Smart TV", brand: "LG" },
+    same: false,
+    note: "olika modellsträngar – hellre granskning än fel länk",
+  },
+  {
+    a: { name: "Alvedon 500 mg filmdragerade tabletter 20 st", brand: "Alvedon" },
+    b: { name: "Alvedon filmdragerad tablett 500mg 20 st", brand: "Alvedon" },
+    same: true,
+  },
+  {
+    a: { name: "Alvedon 500 mg tabletter 20 st", brand: "Alvedon" },
+    b: { name: "Alvedon 500 mg tabletter 100 st", brand: "Alvedon" },
+    same: false,
+    note: "annan förpackningsstorlek",
+  },
+  {
+    a: { name: "Ipren 200 mg 30 tabletter", brand: "Ipren" },
+    b: { name: "Alvedon 500 mg 30 tabletter", brand: "Alvedon" },
+    same: false,
+  },
+  {
+    a: { name: "ACO Hand Cream 75 ml", brand: "ACO" },
+    b: { name: "ACO Handkräm oparfymerad 75ml", brand: "ACO" },
+    same: false,
+    note: "engelskt/svenskt namn – för svagt för att länka",
+  },
+  {
+    a: { name: "Oral-B Pro 3 3000 eltandborste vit", brand: "Oral-B" },
+    b: { name: "Oral-B Pro 3 3000 Cross Action eltandborste, vit", brand: "Oral B" },
+    same: true,
+  },
+  {
+    a: { name: "Zendium Complete Protection tandkräm 75 ml", brand: "Zendium" },
+    b: { name: "Zendium Complete Protection Tandkräm 2 x 75 ml", brand: "Zendium" },
+    same: false,
+    note: "2-pack",
+  },
+  {
+    a: { name: "Bamse Multivitamin tuggtabletter 60 st", brand: "Bamse" },
+    b: { name: "Bamse Multivitamin Tuggtablett 60st", brand: null },
+    same: true,
+  },
+  {
+    a: { name: "Head & Shoulders Classic Clean schampo 250 ml", brand: "Head & Shoulders" },
+    b: { name: "Head & Shoulders Classic Clean Shampoo 0,25 l", brand: "Head & Shoulders" },
+    same: true,
+  },
+  {
+    a: { name: "Philips Hue White and Color Ambiance E27 1-pack", brand: "Philips Hue" },
+    b: { name: "Philips Hue White and Color Ambiance E27 3-pack", brand: "Philips Hue" },
+    same: false,
+  },
+  {
+    a: { name: "JBL Flip 6 bärbar högtalare blå", brand: "JBL" },
+    b: { name: "JBL Flip 6 Portable Bluetooth Speaker Blue", brand: "JBL" },
+    same: true,
+  },
+  {
+    a: { name: "JBL Flip 6 bärbar högtalare", brand: "JBL" },
+    b: { name: "JBL Charge 5 bärbar högtalare", brand: "JBL" },
+    same: false,
+  },
+  {
+    a: { name: "Anker PowerCore 10000 mAh powerbank", brand: "Anker" },
+    b: { name: "Anker PowerCore 20000mAh powerbank", brand: "Anker" },
+    same: false,
+  },
+];
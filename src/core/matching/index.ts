@@ -0,0 +1,10 @@
+/**
+ * Matching module index
+ */
+
+export * from "./normalize";
+export * from "./score";
+export * from "./candidates";
+export * from "./fixtures";
+export * from "./evaluate";
+export * from "./linker";
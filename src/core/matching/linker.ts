@@ -0,0 +1,304 @@
+/**
+ * Links listings without a usable GTIN to catalogue products by fuzzy
+ * matching, and manages the review queue for borderline matches
+ */
+
+import { and, asc, desc, eq, gt, inArray, isNotNull, isNull, ne } from "drizzle-orm";
+import {
+  scrapedProductListings,
+  scrapedProductMatches,
+  scrapedProducts,
+  scrapedStores,
+} from "../../schema";
+import { db } from "../drizzleClient";
+import { CandidateIndex } from "./candidates";
+import { decideMatch, matchThresholds, type MatchThresholds } from "./score";
+
+const PAGE_SIZE = 1000;
+
+interface ScoredPair {
+  listingId: number;
+  productId: number;
+  confidence: number;
+  reasons: string[];
+}
+
+/** Status of a scraped_product_matches row */
+export type MatchStatus = "linked" | "pending" | "accepted" | "rejected";
+
+/** Options for matchUnlinkedListings */
+export interface MatchRunOptions {
+  /** Only listings from this scraped store */
+  scrapedStoreId?: number;
+  /** Stop after this many listings */
+  limit?: number;
+  thresholds?: MatchThresholds;
+  /** Score and count, but write nothing */
+  dryRun?: boolean;
+}
+
+/** Outcome of a matching pass */
+export interface MatchRunStats {
+  scanned: number;
+  linked: number;
+  queued: number;
+  unmatched: number;
+}
+
+/** A pending match with enough context to review it */
+export interface MatchReview {
+  id: number;
+  confidence: number;
+  reasons: string[];
+  listingId: number;
+  listingName: string;
+  listingBrand: string | null;
+  listingUrl: string | null;
+  store: string;
+  productId: number;
+  productName: string | null;
+  productBrand: string | null;
+  gtin14: string;
+}
+
+/**
+ * Loads the catalogue into a candidate index
+ * @returns Index over all named catalogue products
+ */
+export async function loadCandidateIndex(): Promise<CandidateIndex> {
+  const products = await db
+    .select({
+      id: scrapedProducts.id,
+      name: scrapedProducts.name,
+      brand: scrapedProducts.brand,
+    })
+    .from(scrapedProducts)
+    .where(isNotNull(scrapedProducts.name));
+  return new CandidateIndex(products);
+}
+
+/**
+ * Scores every unlinked listing against the catalogue. Confident matches are
+ * linked right away (recorded as "linked"); borderline ones are queued as
+ * "pending". Listings with a pending match, and pairs rejected in review,
+ * are skipped.
+ * @param options - Store filter, limit, thresholds, dry run
+ * @returns Counts per outcome
+ */
+export async function matchUnlinkedListings(
+  options: MatchRunOptions = {},
+): Promise<MatchRunStats> {
+  const thresholds = options.thresholds ?? matchThresholds();
+  const index = await loadCandidateIndex();
+  const stats: MatchRunStats = {
+    scanned: 0,
+    linked: 0,
+    queued: 0,
+    unmatched: 0,
+  };
+  if (index.size === 0) return stats;
+
+  let lastId = 0;
+  while (!options.limit || stats.scanned < options.limit) {
+    const pageSize = options.limit
+      ? Math.min(PAGE_SIZE, options.limit - stats.scanned)
+      : PAGE_SIZE;
+    const page = await db
+      .select({
+        id: scrapedProductListings.id,
+        name: scrapedProductListings.productName,
+        brand: scrapedProductListings.brand,
+      })
+      .from(scrapedProductListings)
+      .where(
+        and(
+          gt(scrapedProductListings.id, lastId),
+          isNull(scrapedProductListings.productId),
+          options.scrapedStoreId
+            ? eq(scrapedProductListings.scrapedStoreId, options.scrapedStoreId)
+            : undefined,
+        ),
+      )
+      .orderBy(asc(scrapedProductListings.id))
+      .limit(pageSize);
+    if (page.length === 0) break;
+    lastId = page[page.length - 1].id;
+
+    // tidigare beslut: väntande granskning hoppas över, avvisade par föreslås inte igen
+    const previous = await db
+      .select({
+        listingId: scrapedProductMatches.listingId,
+        productId: scrapedProductMatches.productId,
+        status: scrapedProductMatches.status,
+      })
+      .from(scrapedProductMatches)
+      .where(
+        inArray(
+          scrapedProductMatches.listingId,
+          page.map((l) => l.id),
+        ),
+      );
+    const pending = new Set(
+      previous.filter((p) => p.status === "pending").map((p) => p.listingId),
+    );
+    const rejected = new Set(
+      previous
+        .filter((p) => p.status === "rejected")
+        .map((p) => `${p.listingId}:${p.productId}`),
+    );
+
+    const links: ScoredPair[] = [];
+    const reviews: ScoredPair[] = [];
+    for (const listing of page) {
+      stats.scanned += 1;
+      if (pending.has(listing.id)) continue;
+      const best = index.bestMatch(listing, (productId) =>
+        rejected.has(`${listing.id}:${productId}`),
+      );
+      const decision = best
+        ? decideMatch(best.confidence, thresholds)
+        : "none";
+      if (!best || decision === "none") {
+        stats.unmatched += 1;
+        continue;
+      }
+      const row = {
+        listingId: listing.id,
+        productId: best.productId,
+        confidence: best.confidence,
+        reasons: best.reasons,
+      };
+      if (decision === "link") links.push(row);
+      else reviews.push(row);
+    }
+    stats.queued += reviews.length;
+    if (options.dryRun) {
+      stats.linked += links.length;
+      continue;
+    }
+    if (links.length + reviews.length === 0) continue;
+
+    const linked = await db.transaction(async (tx) => {
+      // en crawl kan ha kopplat listingen (GTIN) sedan sidan lästes
+      const applied: ScoredPair[] = [];
+      for (const l of links) {
+        const updated = await tx
+          .update(scrapedProductListings)
+          .set({ productId: l.productId })
+          .where(
+            and(
+              eq(scrapedProductListings.id, l.listingId),
+              isNull(scrapedProductListings.productId),
+            ),
+          )
+          .returning({ id: scrapedProductListings.id });
+        if (updated.length > 0) applied.push(l);
+      }
+      const rows = [
+        ...applied.map((l) => ({ ...l, status: "linked" as MatchStatus })),
+        ...reviews.map((r) => ({ ...r, status: "pending" as MatchStatus })),
+      ];
+      if (rows.length > 0) {
+        await tx
+          .insert(scrapedProductMatches)
+          .values(rows)
+          .onConflictDoNothing();
+      }
+      return applied.length;
+    });
+    stats.linked += linked;
+  }
+  return stats;
+}
+
+/**
+ * Lists matches waiting for review, most confident first
+ * @param limit - Max rows
+ * @returns Pending matches with listing and product details
+ */
+export async function listPendingMatches(limit = 50): Promise<MatchReview[]> {
+  const rows = await db
+    .select({
+      id: scrapedProductMatches.id,
+      confidence: scrapedProductMatches.confidence,
+      reasons: scrapedProductMatches.reasons,
+      listingId: scrapedProductListings.id,
+      listingName: scrapedProductListings.productName,
+      listingBrand: scrapedProductListings.brand,
+      listingUrl: scrapedProductListings.productUrl,
+      store: scrapedStores.name,
+      productId: scrapedProducts.id,
+      productName: scrapedProducts.name,
+      productBrand: scrapedProducts.brand,
+      gtin14: scrapedProducts.gtin14,
+    })
+    .from(scrapedProductMatches)
+    .innerJoin(
+      scrapedProductListings,
+      eq(scrapedProductListings.id, scrapedProductMatches.listingId),
+    )
+    .innerJoin(
+      scrapedStores,
+      eq(scrapedStores.id, scrapedProductListings.scrapedStoreId),
+    )
+    .innerJoin(
+      scrapedProducts,
+      eq(scrapedProducts.id, scrapedProductMatches.productId),
+    )
+    .where(eq(scrapedProductMatches.status, "pending"))
+    .orderBy(
+      desc(scrapedProductMatches.confidence),
+      asc(scrapedProductMatches.id),
+    )
+    .limit(limit);
+  return rows.map((r) => ({ ...r, reasons: r.reasons as string[] }));
+}
+
+/**
+ * Accepts or rejects a pending match. Accepting links the listing and
+ * rejects the listing's other pending suggestions.
+ * @param matchId - scraped_product_matches.id
+ * @param accept - true to link, false to reject
+ * @returns False when no pending match with that ID exists
+ */
+export async function resolveMatch(
+  matchId: number,
+  accept: boolean,
+): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [match] = await tx
+      .update(scrapedProductMatches)
+      .set({
+        status: accept ? "accepted" : "rejected",
+        reviewedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(scrapedProductMatches.id, matchId),
+          eq(scrapedProductMatches.status, "pending"),
+        ),
+      )
+      .returning({
+        listingId: scrapedProductMatches.listingId,
+        productId: scrapedProductMatches.productId,
+      });
+    if (!match) return false;
+    if (!accept) return true;
+
+    await tx
+      .update(scrapedProductListings)
+      .set({ productId: match.productId })
+      .where(eq(scrapedProductListings.id, match.listingId));
+    await tx
+      .update(scrapedProductMatches)
+      .set({ status: "rejected", reviewedAt: new Date() })
+      .where(
+        and(
+          eq(scrapedProductMatches.listingId, match.listingId),
+          eq(scrapedProductMatches.status, "pending"),
+          ne(scrapedProductMatches.id, matchId),
+        ),
+      );
+    return true;
+  });
+}
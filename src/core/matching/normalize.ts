@@ -0,0 +1,208 @@
+/**
+ * Text features for matching listings without a GTIN
+ */
+
+/** A quantity with a normalized unit ("st", "ml", "g", "gb", "mah", ...) */
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+/** Features extracted from a product name/brand */
+export interface MatchFeatures {
+  brand: string | null;
+  /** Significant name tokens (no stopwords, no quantities) */
+  tokens: string[];
+  /** Model numbers / MPNs: tokens mixing letters and digits, hyphens removed */
+  models: string[];
+  /** Pack sizes and specs ("30 st", "500 ml", "128 GB") */
+  quantities: Quantity[];
+}
+
+// enhet -> [normaliserad enhet, faktor]
+const UNITS: Record<string, [string, number]> = {
+  st: ["st", 1],
+  stk: ["st", 1],
+  pcs: ["st", 1],
+  pack: ["st", 1],
+  tabletter: ["st", 1],
+  tabl: ["st", 1],
+  kapslar: ["st", 1],
+  kaps: ["st", 1],
+  caps: ["st", 1],
+  pastiller: ["st", 1],
+  dospasar: ["st", 1],
+  ml: ["ml", 1],
+  cl: ["ml", 10],
+  dl: ["ml", 100],
+  l: ["ml", 1000],
+  liter: ["ml", 1000],
+  g: ["g", 1],
+  gram: ["g", 1],
+  kg: ["g", 1000],
+  mg: ["g", 0.001],
+  gb: ["gb", 1],
+  tb: ["gb", 1024],
+  mah: ["mah", 1],
+  w: ["w", 1],
+  tum: ["tum", 1],
+  '"': ["tum", 1],
+  hz: ["hz", 1],
+};
+
+const UNIT_RE = Object.keys(UNITS)
+  .sort((a, b) => b.length - a.length)
+  .map((u) => u.replace(/"/g, '\\"'))
+  .join("|");
+// "2 x 50 ml", "2x50ml"
+const MULTI_QTY = new RegExp(
+  `(\\d+)\\s*x\\s*(\\d+(?:\\.\\d+)?)\\s*(${UNIT_RE})(?![a-z])`,
+  "g",
+);
+// "30 st", "500ml", "1,5 l", '55"'
+const QTY = new RegExp(
+  `(\\d+(?:\\.\\d+)?)[\\s-]*(${UNIT_RE})(?![a-z])`,
+  "g",
+);
+
+const STOPWORDS = new Set([
+  "och",
+  "med",
+  "for",
+  "till",
+  "av",
+  "i",
+  "pa",
+  "en",
+  "ett",
+  "the",
+  "and",
+  "with",
+  "for",
+  "of",
+  "in",
+  "x",
+]);
+
+// svenska butiker skriver på svenska, tillverkarnas kataloger ofta på engelska
+const SYNONYMS: Record<string, string> = {
+  horlurar: "headphones",
+  hogtalare: "speaker",
+  mus: "mouse",
+  tangentbord: "keyboard",
+  tradlos: "wireless",
+  tradlosa: "wireless",
+  tradlost: "wireless",
+  barbar: "portable",
+  laddare: "charger",
+  kabel: "cable",
+  schampo: "shampoo",
+  balsam: "conditioner",
+  handkram: "handcream",
+  generationen: "generation",
+  svart: "black",
+  vit: "white",
+  bla: "blue",
+  rod: "red",
+  gron: "green",
+  gra: "grey",
+  gray: "grey",
+  grafit: "graphite",
+  silver: "silver",
+  rosa: "pink",
+};
+
+/**
+ * Lowercases, strips diacritics and punctuation, uses "." as decimal separator
+ * @param s - Raw text
+ * @returns Normalized text
+ */
+export function normalizeText(s: string | null | undefined): string {
+  return (s ?? "")
+    .normalize("NFKD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, "$1.$2")
+    .replace(/[®™©()[\]{}|/\\+*:;!?]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Normalizes a brand for comparison ("Sony Corp." and "SONY" both become "sony")
+ * @param brand - Raw brand
+ * @returns Normalized brand or null
+ */
+export function normalizeBrand(brand: string | null | undefined): string | null {
+  const b = normalizeText(brand)
+    .replace(/\b(ab|inc|ltd|corp|gmbh|co)\b\.?/g, "")
+    .replace(/[^a-z0-9]/g, "");
+  return b || null;
+}
+
+/**
+ * Extracts pack sizes and specs, converted to base units
+ * @param text - Normalized text
+ * @returns Quantities found (may be empty)
+ */
+export function extractQuantities(text: string): Quantity[] {
+  const out: Quantity[] = [];
+  const rest = text.replace(MULTI_QTY, (_m, n, v, u) => {
+    const [unit, f] = UNITS[u];
+    out.push({ value: Number(n) * Number(v) * f, unit });
+    return " ";
+  });
+  for (const m of rest.matchAll(QTY)) {
+    const [unit, f] = UNITS[m[2]];
+    out.push({ value: Number(m[1]) * f, unit });
+  }
+  return out;
+}
+
+/**
+ * Builds the match features for a product name (+ optional brand)
+ * @param input - Name and brand as scraped
+ * @returns Features used by the scorer
+ */
+export function extractFeatures(input: {
+  name: string | null;
+  brand?: string | null;
+}): MatchFeatures {
+  const text = normalizeText(input.name);
+  const quantities = extractQuantities(text);
+  const withoutQty = text
+    .replace(MULTI_QTY, " ")
+    .replace(QTY, " ")
+    .replace(/\s+/g, " ");
+
+  const models = new Set<string>();
+  const tokens = new Set<string>();
+  for (const raw of withoutQty.split(" ")) {
+    const word = raw
+      .replace(/^[-.,'"]+|[-.,'"]+$/g, "")
+      // "2nd", "3rd" -> "2", "3"
+      .replace(/^(\d+)(st|nd|rd|th)$/, "$1");
+    if (!word) continue;
+    const compact = word.replace(/[-.]/g, "");
+    if (/[a-z]/.test(compact) && /\d/.test(compact) && compact.length >= 3) {
+      models.add(compact);
+      continue;
+    }
+    for (const t of word.split(/[-.,']/)) {
+      // siffror behålls ("Flip 6", "Pro 3") – de skiljer ofta varianter åt
+      if ((t.length >= 2 || /\d/.test(t)) && !STOPWORDS.has(t)) {
+        tokens.add(SYNONYMS[t] ?? t);
+      }
+    }
+  }
+
+  // märket ligger i brand, inte i namnets tokens ("Head & Shoulders", "Oral-B")
+  const brand = normalizeBrand(input.brand);
+  if (brand) {
+    tokens.delete(brand);
+    for (const t of normalizeText(input.brand).split(/[^a-z0-9]+/)) {
+      tokens.delete(t);
+    }
+  }
+  return { brand, tokens: [...tokens], models: [...models], quantities };
+}
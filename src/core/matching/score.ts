@@ -0,0 +1,166 @@
+/**
+ * Confidence scoring for listing ↔ catalogue product pairs
+ */
+
+import { envInt } from "../config/env";
+import { extractFeatures, type MatchFeatures, type Quantity } from "./normalize";
+
+/** Something with a name and (maybe) a brand – a listing or a catalogue product */
+export interface MatchSubject {
+  name: string | null;
+  brand?: string | null;
+}
+
+/** Outcome for one pair */
+export interface MatchScore {
+  /** 0–1 */
+  confidence: number;
+  /** Human-readable signals behind the score, e.g. "model:wh1000xm5" */
+  reasons: string[];
+}
+
+/** What to do with a scored pair */
+export type MatchDecision = "link" | "review" | "none";
+
+/** Thresholds as fractions (env values are percent) */
+export interface MatchThresholds {
+  link: number;
+  review: number;
+}
+
+/**
+ * Reads MATCH_LINK_THRESHOLD / MATCH_REVIEW_THRESHOLD (percent)
+ * @returns Thresholds as fractions
+ */
+export function matchThresholds(): MatchThresholds {
+  return {
+    link: envInt("MATCH_LINK_THRESHOLD", 85) / 100,
+    review: envInt("MATCH_REVIEW_THRESHOLD", 60) / 100,
+  };
+}
+
+// tolerans för avrundade mängder ("1.5 l" mot "1500 ml" är exakt, men "236 ml" mot "237 ml" händer)
+const QTY_TOLERANCE = 0.02;
+
+const sameQuantity = (a: Quantity, b: Quantity) =>
+  a.unit === b.unit &&
+  Math.abs(a.value - b.value) <= QTY_TOLERANCE * Math.max(a.value, b.value);
+
+/**
+ * Dice coefficient over name tokens, with a small boost for tokens shared by
+ * prefix ("tandkräm" / "tandkrämen")
+ */
+function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const rest = new Set(b);
+  let shared = 0;
+  for (const t of a) {
+    if (rest.delete(t)) {
+      shared += 1;
+      continue;
+    }
+    const near = [...rest].find(
+      (u) =>
+        Math.min(u.length, t.length) >= 5 &&
+        (u.startsWith(t) || t.startsWith(u)),
+    );
+    if (near) {
+      rest.delete(near);
+      shared += 0.8;
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+/**
+ * Scores two feature sets. Hard conflicts (different brand, model number or
+ * pack size) cap the confidence well below the review threshold.
+ * @param a - Features of the listing
+ * @param b - Features of the catalogue product
+ * @returns Confidence and reasons
+ */
+export function scoreFeatures(a: MatchFeatures, b: MatchFeatures): MatchScore {
+  const reasons: string[] = [];
+  let cap = 1;
+
+  // märke: saknas det på ena sidan räknas det som träff om det står i namnet
+  let brandMatch = false;
+  if (a.brand && b.brand) {
+    if (a.brand === b.brand) brandMatch = true;
+    else {
+      reasons.push(`brand_conflict:${a.brand}/${b.brand}`);
+      cap = Math.min(cap, 0.2);
+    }
+  } else if (a.brand || b.brand) {
+    const brand = (a.brand ?? b.brand)!;
+    const other = a.brand ? b : a;
+    brandMatch = other.tokens.includes(brand);
+  }
+  if (brandMatch) reasons.push("brand");
+
+  const sharedModels = a.models.filter((m) => b.models.includes(m));
+  if (sharedModels.length > 0) {
+    reasons.push(...sharedModels.map((m) => `model:${m}`));
+  } else if (a.models.length > 0 && b.models.length > 0) {
+    reasons.push(`model_conflict:${a.models[0]}/${b.models[0]}`);
+    cap = Math.min(cap, 0.4);
+  }
+
+  let qtyMatches = 0;
+  for (const qa of a.quantities) {
+    const sameUnit = b.quantities.filter((qb) => qb.unit === qa.unit);
+    if (sameUnit.length === 0) continue;
+    if (sameUnit.some((qb) => sameQuantity(qa, qb))) {
+      qtyMatches += 1;
+      reasons.push(`size:${qa.value}${qa.unit}`);
+    } else {
+      reasons.push(`size_conflict:${qa.value}${qa.unit}/${sameUnit[0].value}${qa.unit}`);
+      cap = Math.min(cap, 0.3);
+    }
+  }
+
+  const tokens = tokenSimilarity(a.tokens, b.tokens);
+  reasons.push(`tokens:${tokens.toFixed(2)}`);
+
+  // långa modellnummer ("wh1000xm5") är nästan unika, korta ("s23") är det inte
+  const modelWeight = sharedModels.some((m) => m.length >= 5) ? 0.5 : 0.3;
+  let confidence = 0.7 * tokens;
+  if (sharedModels.length > 0) confidence += modelWeight;
+  if (brandMatch) confidence += 0.15;
+  confidence += Math.min(qtyMatches, 2) * 0.1;
+  // utan märke eller modellnummer räcker inte namnlikhet hela vägen
+  if (!brandMatch && sharedModels.length === 0) cap = Math.min(cap, 0.75);
+
+  return {
+    confidence: Math.round(Math.min(confidence, cap) * 100) / 100,
+    reasons,
+  };
+}
+
+/**
+ * Scores a listing against a catalogue product
+ * @param listing - Listing name and brand
+ * @param product - Catalogue product name and brand
+ * @returns Confidence and reasons
+ */
+export function scoreMatch(
+  listing: MatchSubject,
+  product: MatchSubject,
+): MatchScore {
+  return scoreFeatures(extractFeatures(listing), extractFeatures(product));
+}
+
+/**
+ * Maps a confidence to an action
+ * @param confidence - Score from scoreMatch
+ * @param thresholds - Link/review thresholds
+ * @returns "link", "review" or "none"
+ */
+export function decideMatch(
+  confidence: number,
+  thresholds: MatchThresholds = matchThresholds(),
+): MatchDecision {
+  if (confidence >= thresholds.link) return "link";
+  if (confidence >= thresholds.review) return "review";
+  return "none";
+}
@@ -0,0 +1,273 @@
+/**
+ * Versioned SQL migrations
+ *
+ * Migrations are generated from src/schema.ts with drizzle-kit
+ * (`npm run db:generate -- --name <name>`) into migrations/, ordered by
+ * migrations/meta/_journal.json. Rollbacks are hand-written in
+ * migrations/down/<tag>.sql. Applied migrations are tracked in schema_migrations.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { sql } from "drizzle-orm";
+import { envStr } from "./config/env";
+import { db, type DbTransaction } from "./drizzleClient";
+
+const STATEMENT_BREAK = "--> statement-breakpoint";
+// låser mot parallella migrate-körningar (godtycklig men fast nyckel)
+const MIGRATION_LOCK_KEY = 482_113_907;
+
+// dist/core/migrations.js och src/core/migrations.ts ligger båda två nivåer under roten
+const DEFAULT_DIR = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../migrations",
+);
+
+/** One migration from the drizzle-kit journal */
+export interface Migration {
+  idx: number;
+  tag: string;
+  /** sha256 of the up SQL */
+  hash: string;
+  up: string[];
+  /** Null when no migrations/down/<tag>.sql exists */
+  down: string[] | null;
+}
+
+/** A migration together with whether/when it was applied */
+export interface MigrationStatus {
+  tag: string;
+  appliedAt: Date | null;
+  /** Applied SQL differs from the file on disk */
+  modified: boolean;
+  reversible: boolean;
+}
+
+/** Thrown when the database schema does not match this build */
+export class SchemaVersionError extends Error {
+  constructor(
+    message: string,
+    public pending: string[],
+    public unknown: string[],
+  ) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+const splitStatements = (text: string) =>
+  text
+    .split(STATEMENT_BREAK)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the migrations shipped with this build
+ * @param dir - Migrations directory (default env MIGRATIONS_DIR or ./migrations)
+ * @returns Migrations in journal order
+ */
+export function loadMigrations(
+  dir = envStr("MIGRATIONS_DIR", DEFAULT_DIR),
+): Migration[] {
+  const journal = JSON.parse(
+    fs.readFileSync(path.join(dir, "meta", "_journal.json"), "utf8"),
+  ) as { entries: Array<{ idx: number; tag: string }> };
+
+  return journal.entries
+    .sort((a, b) => a.idx - b.idx)
+    .map((e) => {
+      const up = fs.readFileSync(path.join(dir, `${e.tag}.sql`), "utf8");
+      const downPath = path.join(dir, "down", `${e.tag}.sql`);
+      return {
+        idx: e.idx,
+        tag: e.tag,
+        hash: createHash("sha256").update(up).digest("hex"),
+        up: splitStatements(up),
+        down: fs.existsSync(downPath)
+          ? splitStatements(fs.readFileSync(downPath, "utf8"))
+          : null,
+      };
+    });
+}
+
+async function ensureMigrationsTable() {
+  await db.execute(sql`
+    create table if not exists schema_migrations (
+      id serial primary key,
+      tag varchar(255) not null unique,
+      hash varchar(64) not null,
+      applied_at timestamp not null default current_timestamp
+    )
+  `);
+}
+
+async function appliedMigrations(): Promise<
+  Map<string, { hash: string; appliedAt: Date }>
+> {
+  await ensureMigrationsTable();
+  const res = await db.execute<{
+    tag: string;
+    hash: string;
+    applied_at: Date;
+  }>(sql`select tag, hash, applied_at from schema_migrations order by id`);
+  return new Map(
+    res.rows.map((r) => [
+      r.tag,
+      { hash: r.hash, appliedAt: new Date(r.applied_at) },
+    ]),
+  );
+}
+
+/**
+ * Lists every known migration with its applied state
+ * @returns Status per migration, plus applied tags this build does not know
+ */
+export async function migrationStatus(): Promise<{
+  migrations: MigrationStatus[];
+  unknown: string[];
+}> {
+  const all = loadMigrations();
+  const applied = await appliedMigrations();
+  const known = new Set(all.map((m) => m.tag));
+  return {
+    migrations: all.map((m) => {
+      const a = applied.get(m.tag);
+      return {
+        tag: m.tag,
+        appliedAt: a?.appliedAt ?? null,
+        modified: !!a && a.hash !== m.hash,
+        reversible: m.down !== null,
+      };
+    }),
+    unknown: [...applied.keys()].filter((t) => !known.has(t)),
+  };
+}
+
+/**
+ * True when the baseline tables already exist (schema applied by hand
+ * before migrations were introduced)
+ * @param tx - Open transaction (holding the migration lock)
+ */
+async function hasLegacySchema(tx: DbTransaction): Promise<boolean> {
+  const res = await tx.execute<{ exists: boolean }>(
+    sql`select to_regclass('public.scraped_product_listings') is not null as exists`,
+  );
+  return !!res.rows[0]?.exists;
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction.
+ * On a database that predates migrations the baseline is recorded
+ * as applied instead of being run.
+ * @param options.to - Stop after this tag
+ * @returns Tags that were applied (or adopted)
+ * @throws Error when options.to is not a migration of this build
+ */
+export async function migrateUp(options: { to?: string } = {}): Promise<
+  string[]
+> {
+  const all = loadMigrations();
+  if (options.to !== undefined && !all.some((m) => m.tag === options.to)) {
+    throw new Error(
+      `Unknown migration "${options.to}" (known: ${all.map((m) => m.tag).join(", ")})`,
+    );
+  }
+  const applied = await appliedMigrations();
+  const done: string[] = [];
+
+  for (const m of all) {
+    if (!applied.has(m.tag)) {
+      const ran = await db.transaction(async (tx) => {
+        await tx.execute(
+          sql`select pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`,
+        );
+        // en parallell körning kan ha hunnit före medan vi väntade på låset
+        const again = await tx.execute(
+          sql`select 1 from schema_migrations where tag = ${m.tag}`,
+        );
+        if (again.rows.length > 0) return false;
+        const empty = await tx.execute(
+          sql`select 1 from schema_migrations limit 1`,
+        );
+        // befintlig databas från före migrationerna: baseline adopteras
+        const adopt =
+          m.idx === 0 && empty.rows.length === 0 && (await hasLegacySchema(tx));
+        if (!adopt) {
+          for (const stmt of m.up) await tx.execute(sql.raw(stmt));
+        }
+        await tx.execute(
+          sql`insert into schema_migrations (tag, hash) values (${m.tag}, ${m.hash})`,
+        );
+        return true;
+      });
+      if (ran) done.push(m.tag);
+    }
+    if (m.tag === options.to) break;
+  }
+  return done;
+}
+
+/**
+ * Rolls back the most recently applied migrations
+ * @param steps - How many migrations to roll back, an integer >= 1 (default 1)
+ * @returns Tags that were rolled back
+ * @throws Error when steps is invalid or a migration has no down file
+ */
+export async function migrateDown(steps = 1): Promise<string[]> {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(`steps must be an integer >= 1 (got ${steps})`);
+  }
+  const all = loadMigrations();
+  const applied = await appliedMigrations();
+  const targets = all
+    .filter((m) => applied.has(m.tag))
+    .reverse()
+    .slice(0, steps);
+  const done: string[] = [];
+
+  for (const m of targets) {
+    if (!m.down) {
+      throw new Error(
+        `Migration ${m.tag} has no down file (migrations/down/${m.tag}.sql)`,
+      );
+    }
+    await db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`,
+      );
+      for (const stmt of m.down!) await tx.execute(sql.raw(stmt));
+      await tx.execute(sql`delete from schema_migrations where tag = ${m.tag}`);
+    });
+    done.push(m.tag);
+  }
+  return done;
+}
+
+/**
+ * Verifies that the database has exactly the migrations this build ships
+ * @throws SchemaVersionError when migrations are pending or the database is ahead
+ */
+export async function assertSchemaCompatible(): Promise<void> {
+  const { migrations, unknown } = await migrationStatus();
+  const pending = migrations.filter((m) => !m.appliedAt).map((m) => m.tag);
+  if (pending.length === 0 && unknown.length === 0) return;
+
+  const parts: string[] = [];
+  if (pending.length > 0) {
+    parts.push(
+      `pending migrations: ${pending.join(", ")} (run npm run migrate -- up)`,
+    );
+  }
+  if (unknown.length > 0) {
+    parts.push(
+      `database has migrations this build does not know: ${unknown.join(", ")}`,
+    );
+  }
+  throw new SchemaVersionError(
+    `Incompatible database schema – ${parts.join("; ")}`,
+    pending,
+    unknown,
+  );
+}
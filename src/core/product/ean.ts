@@ -15,6 +15,41 @@ export const idFor = (p: Product, siteHost: string): string =>
   (p.ean && `${siteHost}|${p.ean.trim()}`) ||
   `${siteHost}|${normalizeUrlKey(p.url)}`;
 
+/** Fields compared when merging a re-crawled product */
+export const PRODUCT_DIFF_FIELDS: (keyof Product)[] = [
+  "name",
+  "price",
+  "originalPrice",
+  "currency",
+  "imageUrl",
+  "ean",
+  "brand",
+  "inStock",
+];
+
+/**
+ * Compares an incoming product with what was stored before
+ * @param existing - Previously stored values
+ * @param incoming - Freshly crawled values
+ * @param fields - Fields to compare (default PRODUCT_DIFF_FIELDS)
+ * @param keepMissing - Treat null/undefined incoming values as "not scraped" instead of a change
+ * @returns The changed fields with their new values (empty when nothing changed)
+ */
+export function diffProduct(
+  existing: Partial<Product>,
+  incoming: Partial<Product>,
+  fields: (keyof Product)[] = PRODUCT_DIFF_FIELDS,
+  keepMissing = true,
+): Partial<Product> {
+  const diff: Partial<Product> = {};
+  for (const k of fields) {
+    const nv = incoming[k] ?? null;
+    if (nv === null && keepMissing) continue;
+    if (nv !== (existing[k] ?? null)) (diff as any)[k] = nv;
+  }
+  return diff;
+}
+
 /**
  * Upserts a product into the store by EAN, handling deduplication
  * @param store - The product store to update
@@ -51,25 +86,7 @@ export function upsertByEan(
   merged.lastmodByUrl = merged.lastmodByUrl || {};
   if (lastmod) merged.lastmodByUrl[keyUrl] = lastmod;
 
-  const diff: Partial<Product> = {};
-  (
-    [
-      "name",
-      "price",
-      "originalPrice",
-      "currency",
-      "imageUrl",
-      "ean",
-      "brand",
-      "inStock",
-    ] as (keyof Product)[]
-  ).forEach((k) => {
-    const nv = incoming[k];
-    if (nv !== undefined && nv !== null && nv !== (merged as any)[k]) {
-      (merged as any)[k] = nv;
-      (diff as any)[k] = nv;
-    }
-  });
+  Object.assign(merged, diffProduct(merged, incoming));
 
   const changed = JSON.stringify(existing) !== JSON.stringify(merged);
   merged.lastCrawled = nowIso;
@@ -0,0 +1,19 @@
+/**
+ * GTIN normalization for the product catalogue
+ */
+
+import { isValidGtin } from "../extractors";
+
+/**
+ * Normalizes an EAN/UPC/GTIN to GTIN-14 (left-padded with zeros) so that
+ * the same article scraped as EAN-13 in one store and GTIN-14 in another
+ * ends up with the same key
+ * @param code - GTIN-8/12/13/14 as scraped (spaces/dashes allowed)
+ * @returns 14-digit GTIN, or null when the code is missing or has a bad check digit
+ */
+export function toGtin14(code: string | null | undefined): string | null {
+  if (!code) return null;
+  const digits = code.replace(/[\s-]/g, "");
+  if (!isValidGtin(digits)) return null;
+  return digits.padStart(14, "0");
+}
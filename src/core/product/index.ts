@@ -3,3 +3,5 @@
  */
 
 export * from "./ean";
+export * from "./gtin";
+export * from "./price-anomaly";
@@ -0,0 +1,191 @@
+/**
+ * Price sanity check between extraction and storage
+ *
+ * Site parsers sometimes get the unit wrong (öre read as kronor, "1.234"
+ * read as 1.234), which shows up as a price 100x off. A price that jumps
+ * more than PRICE_ANOMALY_RATIO from the listing's last trusted price, or
+ * sits that far from its originalPrice, is held until the next crawl sees
+ * the same price again.
+ */
+
+import { envInt } from "../config/env";
+import { discountPercent, toMinorUnits } from "../utils/price";
+
+/** "jump" = far from the last trusted price, "original" = far from originalPrice */
+export type PriceFlag = "jump" | "original";
+
+/** What the listing row currently holds */
+export interface PriceState {
+  priceMinor: number | null;
+  originalPriceMinor: number | null;
+  /** Unconfirmed price from an earlier crawl */
+  suspectPriceMinor: number | null;
+}
+
+/** Outcome of the check for one observed price */
+export interface PriceCheck {
+  /** Null when the price is trusted (or now confirmed) */
+  flag: PriceFlag | null;
+  /** Price awaiting confirmation by the next crawl */
+  suspectPriceMinor: number | null;
+  /** Trusted prices to keep on the listing while the new one is held */
+  held: { priceMinor: number | null; originalPriceMinor: number | null } | null;
+}
+
+/** Price columns as they are written to a listing row */
+export interface StoredPrices {
+  price: number | null;
+  priceMinor: number | null;
+  originalPriceMinor: number | null;
+  discountPercent: number | null;
+  suspectPriceMinor: number | null;
+  priceFlag: PriceFlag | null;
+}
+
+const TRUSTED: PriceCheck = { flag: null, suspectPriceMinor: null, held: null };
+
+/**
+ * Largest allowed ratio between two prices (PRICE_ANOMALY_RATIO)
+ * @returns Ratio, or 0 when the check is disabled
+ */
+export function priceAnomalyRatio(): number {
+  return Math.max(0, envInt("PRICE_ANOMALY_RATIO", 5));
+}
+
+const spread = (a: number, b: number) => Math.max(a, b) / Math.min(a, b);
+
+/**
+ * Flags a price that is implausibly far from a reference price
+ * @param priceMinor - Observed price in minor units
+ * @param originalPriceMinor - Observed original price in minor units
+ * @param trustedPriceMinor - Last trusted price of the listing
+ * @param ratio - Largest allowed ratio either way
+ * @returns Why the price looks wrong, or null
+ */
+export function detectPriceAnomaly(
+  priceMinor: number,
+  originalPriceMinor: number | null,
+  trustedPriceMinor: number | null,
+  ratio: number,
+): PriceFlag | null {
+  if (trustedPriceMinor && spread(priceMinor, trustedPriceMinor) > ratio) {
+    return "jump";
+  }
+  if (originalPriceMinor && spread(priceMinor, originalPriceMinor) > ratio) {
+    return "original";
+  }
+  return null;
+}
+
+/**
+ * Decides whether an observed price can be stored. A suspect price on a
+ * listing with a trusted price is held (the trusted price stays); on a new
+ * listing it is stored but flagged. Seeing the same suspect price on the
+ * next crawl confirms it.
+ * @param observed - Prices from this crawl in minor units
+ * @param previous - The listing row, or null for a new listing
+ * @param ratio - Largest allowed ratio (0 = trust everything)
+ * @returns The check result
+ */
+export function checkPrice(
+  observed: { priceMinor: number | null; originalPriceMinor: number | null },
+  previous: PriceState | null,
+  ratio: number,
+): PriceCheck {
+  if (ratio <= 0 || observed.priceMinor === null) return TRUSTED;
+  // ett flaggat pris på en ny listing är inte betrott än
+  const trusted =
+    previous && previous.suspectPriceMinor !== previous.priceMinor
+      ? previous.priceMinor
+      : null;
+  const flag = detectPriceAnomaly(
+    observed.priceMinor,
+    observed.originalPriceMinor,
+    trusted,
+    ratio,
+  );
+  if (!flag || previous?.suspectPriceMinor === observed.priceMinor) {
+    return TRUSTED;
+  }
+  return {
+    flag,
+    suspectPriceMinor: observed.priceMinor,
+    held:
+      trusted !== null
+        ? {
+            priceMinor: trusted,
+            originalPriceMinor: previous!.originalPriceMinor,
+          }
+        : null,
+  };
+}
+
+/**
+ * The prices history and deals may use: the observed ones when trusted,
+ * the held trusted ones while a suspect price waits for confirmation, and
+ * otherwise (a flagged new listing, an unusable price) the last logged ones
+ * @param price - Observed price in major units
+ * @param originalPrice - Observed original price in major units
+ * @param check - Result of checkPrice, if the batch was screened
+ * @param last - Prices of the listing's latest history row, if any
+ * @returns Prices in minor units, or null when no trusted price is known
+ */
+export function trustedPrices(
+  price: number,
+  originalPrice: number | null | undefined,
+  check?: PriceCheck,
+  last?: { priceMinor: number | null; originalPriceMinor: number | null },
+): { priceMinor: number; originalPriceMinor: number | null } | null {
+  const prices = check?.flag
+    ? check.held
+    : {
+        priceMinor: toMinorUnits(price),
+        originalPriceMinor: toMinorUnits(originalPrice),
+      };
+  if (prices?.priceMinor != null) {
+    return { ...prices, priceMinor: prices.priceMinor };
+  }
+  return last?.priceMinor != null
+    ? { ...last, priceMinor: last.priceMinor }
+    : null;
+}
+
+/**
+ * Price columns for a listing write. Held listings keep their trusted
+ * prices; a flagged price never gets a discount_percent.
+ * @param price - Observed price in major units
+ * @param originalPrice - Observed original price in major units
+ * @param check - Result of checkPrice, if the batch was screened
+ * @returns Values for the price columns
+ */
+export function storedPrices(
+  price: number,
+  originalPrice: number | null | undefined,
+  check?: PriceCheck,
+): StoredPrices {
+  const suspectPriceMinor = check?.suspectPriceMinor ?? null;
+  const priceFlag = check?.flag ?? null;
+  if (check?.held) {
+    const { priceMinor, originalPriceMinor } = check.held;
+    return {
+      price: priceMinor === null ? null : Math.round(priceMinor / 100),
+      priceMinor,
+      originalPriceMinor,
+      discountPercent: discountPercent(priceMinor, originalPriceMinor),
+      suspectPriceMinor,
+      priceFlag,
+    };
+  }
+  const priceMinor = toMinorUnits(price);
+  const originalPriceMinor = toMinorUnits(originalPrice);
+  return {
+    price: Number.isFinite(price) ? Math.round(price) : null,
+    priceMinor,
+    originalPriceMinor,
+    discountPercent: priceFlag
+      ? null
+      : discountPercent(priceMinor, originalPriceMinor),
+    suspectPriceMinor,
+    priceFlag,
+  };
+}
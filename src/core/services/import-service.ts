@@ -3,12 +3,15 @@
  * Can be imported and used from CLI, BullMQ workers, or any other context
  */
 
-import { promises as fs } from "fs";
-import { spawn } from "node:child_process";
-import path from "node:path";
 import { DEFAULT_SITES, SITE_CATEGORIES, registry } from "../../sites/registry";
 import { envInt, envStr } from "../config/index";
-import { runSite } from "../execution/index";
+import {
+  createRunId,
+  executeSite,
+  pruneCheckpoints,
+  type SiteRunStats,
+} from "../execution/index";
+import { parseSinkNames } from "../sinks/index";
 import { Logger } from "../utils/logger";
 
 export interface ImportServiceOptions {
@@ -19,123 +22,37 @@ export interface ImportServiceOptions {
   progressEvery?: number;
   deltaGraceSeconds?: number;
   refreshTtlDays?: number;
+  /** Reuse an earlier run ID to resume that run from its checkpoint */
+  runId?: string;
+  /** How many sites run at the same time (default env PARALLEL_SITES or 1) */
+  parallelSites?: number;
+  /** Output sinks, e.g. ["jsonl", "postgres"] (default env SINKS or "postgres") */
+  sinks?: string[];
+  /** BullMQ job ID, recorded on each scrape_runs row */
+  jobId?: string;
 }
 
 export interface ImportResult {
   siteKey: string;
   success: boolean;
   error?: string;
+  stats?: SiteRunStats;
+  /** ISO timestamps and wall-clock duration for the site */
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
 }
 
 /**
- * Run apohem in chunked mode using child processes
+ * A run counts as successful when it completed and no shard was lost
  */
-async function runApohemChunked(): Promise<ImportResult> {
-  Logger.info(
-    `\n=== Starting site: apohem (chunked via SEED_FILE + global progress) ===`,
-  );
-
-  const batches = [0, 1, 2, 3].map(
-    (b) => `https://www.apohem.se/sitemap.xml?batch=${b}&language=sv-se`,
-  );
-  const allUrls: string[] = [];
-
-  // Fetch XML from batches
-  for (const u of batches) {
-    try {
-      const r = await fetch(u, {
-        redirect: "follow",
-        headers: {
-          "user-agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit(537.36) Chrome/124.0.0.0 Safari/537.36",
-          accept:
-            "application/xml,text/xml,application/xhtml+xml;q=0.9,*/*;q=0.8",
-          referer: "https://www.google.com/",
-        },
-      });
-      if (!r.ok) throw new Error(`HTTP ${r.status}`);
-      const xml = await r.text();
-      const re = /<loc>\s*([^<\s][^<]*)\s*<\/loc>/gi;
-      const locs: string[] = [];
-      let m: RegExpExecArray | null;
-      while ((m = re.exec(xml))) locs.push(m[1].trim());
-
-      if (locs.length === 0) {
-        Logger.info(
-          `[apohem] ${u} has no <loc> entries; using index itself as seed`,
-        );
-        allUrls.push(u);
-      } else {
-        allUrls.push(...locs);
-      }
-    } catch (e: any) {
-      Logger.warn(`[apohem] warn: could not fetch ${u}: ${e?.message || e}`);
-      allUrls.push(u);
-    }
-  }
-
-  const uniqUrls = Array.from(new Set(allUrls));
-  const chunkSize = Math.max(
-    200,
-    parseInt(process.env.APOHEM_CHUNK_SIZE || "1200", 10) || 1200,
-  );
-  const chunks: string[][] = [];
-  for (let i = 0; i < uniqUrls.length; i += chunkSize) {
-    chunks.push(uniqUrls.slice(i, i + chunkSize));
-  }
-  Logger.info(
-    `[apohem] total urls=${uniqUrls.length} chunks=${chunks.length} chunkSize=${chunkSize}`,
-  );
-
-  await fs.mkdir("tmp/apohem-chunks", { recursive: true });
-
-  let ok = 0,
-    fails = 0;
-  for (let i = 0; i < chunks.length; i++) {
-    const list = chunks[i];
-    const file = path.join(
-      "tmp/apohem-chunks",
-      `chunk-${String(i + 1).padStart(3, "0")}.txt`,
-    );
-    await fs.writeFile(file, list.join("\n"), "utf8");
-
-    Logger.info(
-      `[apohem chunk ${i + 1}/${chunks.length}] start size=${list.length}`,
-    );
-
-    await new Promise<void>((resolve) => {
-      const env = {
-        ...process.env,
-        SEED_FILE: file,
-        SEED_ONLY: "1",
-        PROGRESS_EVERY: process.env.PROGRESS_EVERY || "1000",
-      };
-      const child = spawn(
-        process.execPath,
-        ["dist/cli.js", "--site", "apohem"],
-        { stdio: "inherit", env },
-      );
-      child.on("exit", (code) => {
-        if (code === 0) ok++;
-        else {
-          fails++;
-          Logger.warn(
-            `[apohem chunk ${i + 1}/${chunks.length}] ❌ failed (exit ${code})`,
-          );
-        }
-        resolve();
-      });
-    });
-
-    await new Promise((r) => setTimeout(r, 500));
-  }
-
-  Logger.info(`[apohem] finished chunks. ok=${ok} fails=${fails}`);
-  Logger.info(`=== Finished site: apohem ===\n`);
-
+function toResult(stats: SiteRunStats): ImportResult {
+  const failedShards = stats.shards?.failed ?? 0;
   return {
-    siteKey: "apohem",
-    success: fails === 0,
+    siteKey: stats.siteKey,
+    success: failedShards === 0,
+    error: failedShards > 0 ? `${failedShards} shard(s) failed` : undefined,
+    stats,
   };
 }
 
@@ -154,7 +71,11 @@ export async function runImport(
     progressEvery = envInt("PROGRESS_EVERY", 100),
     deltaGraceSeconds = envInt("DELTA_GRACE_SECONDS", 120),
     refreshTtlDays = envInt("REFRESH_TTL_DAYS", 30),
+    runId = process.env.RUN_ID || createRunId(),
+    parallelSites = envInt("PARALLEL_SITES", 1),
   } = options;
+  // validera tidigt så att ett felstavat sink-namn inte upptäcks först per sajt
+  const sinks = parseSinkNames(options.sinks ?? envStr("SINKS", "postgres"));
 
   // Determine which sites to run
   let targetSites: string[];
@@ -194,80 +115,96 @@ export async function runImport(
   }
 
   Logger.info(
-    `🚀 Starting ${validSites.length} site(s): ${validSites.join(", ")}`,
+    `🚀 Starting ${validSites.length} site(s): ${validSites.join(
+      ", ",
+    )} (runId=${runId}, sinks=${sinks.join(",")})`,
+  );
+
+  await pruneCheckpoints(envInt("CHECKPOINT_TTL_DAYS", 7)).catch((e) =>
+    Logger.warn(`Could not prune old checkpoints: ${e?.message || e}`),
   );
 
   const results: ImportResult[] = [];
   const runOpts = {
     outDirBase: envStr("OUT_DIR_BASE", "out"),
+    runId,
     runMode,
     productsLimit,
     progressEvery,
     deltaGraceSeconds,
     refreshTtlDays,
+    sinks,
+    jobId: options.jobId,
   };
 
-  // Handle apoteket headstart
-  const HEADSTART_MS = Number(process.env.APOK_HEADSTART_MS || 4000);
-  const hasApoteket = validSites.includes("apoteket");
+  // Högst prioritet först (stabil sortering – annars ursprunglig ordning)
+  const ordered = [...validSites].sort(
+    (a, b) =>
+      (registry.get(b)?.scheduling?.priority ?? 0) -
+      (registry.get(a)?.scheduling?.priority ?? 0),
+  );
 
-  if (hasApoteket) {
-    const adapter = registry.get("apoteket");
-    if (adapter) {
-      Logger.info(`\n=== Starting site: apoteket (${adapter.displayName}) ===`);
-      try {
-        await runSite(adapter, runOpts);
-        results.push({ siteKey: "apoteket", success: true });
-        Logger.info(`=== Finished site: apoteket ===\n`);
-      } catch (error: any) {
-        results.push({
-          siteKey: "apoteket",
-          success: false,
-          error: error?.message || String(error),
-        });
-        Logger.error(`Failed to import apoteket: ${error?.message || error}`);
-      }
-    }
-    if (HEADSTART_MS > 0) {
-      await new Promise((r) => setTimeout(r, HEADSTART_MS));
+  const runOne = async (siteKey: string): Promise<ImportResult> => {
+    const adapter = registry.get(siteKey);
+    if (!adapter) {
+      return { siteKey, success: false, error: "Adapter not found" };
     }
-  }
-
-  // Handle other sites (including apohem which will self-chunk)
-  const others = validSites.filter((k) => k !== "apoteket");
-  for (const siteKey of others) {
-    try {
-      if (siteKey === "apohem") {
-        const result = await runApohemChunked();
-        results.push(result);
-        continue;
-      }
 
-      const adapter = registry.get(siteKey);
-      if (!adapter) {
-        results.push({
-          siteKey,
-          success: false,
-          error: "Adapter not found",
-        });
-        continue;
-      }
+    const started = new Date();
+    const timing = () => {
+      const finished = new Date();
+      return {
+        startedAt: started.toISOString(),
+        finishedAt: finished.toISOString(),
+        durationMs: finished.getTime() - started.getTime(),
+      };
+    };
 
+    try {
       Logger.info(
         `\n=== Starting site: ${siteKey} (${adapter.displayName}) ===`,
       );
-      await runSite(adapter, runOpts);
-      results.push({ siteKey, success: true });
+      // sharded adapters split themselves via their execution config
+      const result = toResult(await executeSite(adapter, runOpts));
       Logger.info(`=== Finished site: ${siteKey} ===\n`);
+      return { ...result, ...timing() };
     } catch (error: any) {
-      results.push({
+      Logger.error(`Failed to import ${siteKey}: ${error?.message || error}`);
+      return {
         siteKey,
         success: false,
         error: error?.message || String(error),
-      });
-      Logger.error(`Failed to import ${siteKey}: ${error?.message || error}`);
+        ...timing(),
+      };
     }
-  }
+  };
+
+  // N banor plockar sajter i prioritetsordning; varje sajt har egen browser,
+  // limiter (per host) och felbudget, sidantalet begränsas globalt i PagePool
+  // NaN/Infinity (t.ex. ett felstavat argument) ger en bana, inte noll
+  const requested = Number.isFinite(parallelSites)
+    ? Math.floor(parallelSites)
+    : 1;
+  const lanes = Math.max(1, Math.min(requested, ordered.length));
+  let next = 0;
+  let notBefore = 0;
+  const lane = async () => {
+    while (next < ordered.length) {
+      const siteKey = ordered[next++];
+      const wait = notBefore - Date.now();
+      if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+
+      // headstart: efterföljande sajter startar tidigast headstartMs efter denna
+      const headstartMs = registry.get(siteKey)?.scheduling?.headstartMs ?? 0;
+      if (headstartMs > 0) {
+        notBefore = Math.max(notBefore, Date.now() + headstartMs);
+      }
+      results.push(await runOne(siteKey));
+    }
+  };
+  if (lanes > 1) Logger.info(`Running up to ${lanes} sites in parallel`);
+  await Promise.all(Array.from({ length: lanes }, lane));
+  results.sort((a, b) => ordered.indexOf(a.siteKey) - ordered.indexOf(b.siteKey));
 
   Logger.info(`✅ All imports finished`);
   return results;
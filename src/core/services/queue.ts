@@ -27,6 +27,12 @@ export interface ImportJobData {
   category?: string;
   runMode?: "full" | "delta" | "refresh";
   productsLimit?: number;
+  /** Explicit run ID (defaults to the job ID, so a retried job resumes) */
+  runId?: string;
+  /** Sites to run at the same time within the job */
+  parallelSites?: number;
+  /** Output sinks, e.g. ["postgres", "jsonl"] (default env SINKS or "postgres") */
+  sinks?: string[];
 }
 
 export const QUEUE_NAMES = {
@@ -47,8 +53,15 @@ export function createImportQueue() {
  * Processes a job by calling runImport with the job data
  */
 export async function processImportJob(job: any) {
-  const { siteKeys, category, runMode, productsLimit } =
-    job.data as ImportJobData;
+  const {
+    siteKeys,
+    category,
+    runMode,
+    productsLimit,
+    runId,
+    parallelSites,
+    sinks,
+  } = job.data as ImportJobData;
 
   Logger.info(`Processing job ${job.id}`, {
     siteKeys,
@@ -62,6 +75,10 @@ export async function processImportJob(job: any) {
       category: category as any,
       runMode,
       productsLimit,
+      runId: runId ?? (job.id != null ? `job-${job.id}` : undefined),
+      jobId: job.id != null ? String(job.id) : undefined,
+      parallelSites,
+      sinks,
     });
 
     const successCount = results.filter((r) => r.success).length;
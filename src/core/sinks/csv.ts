@@ -0,0 +1,154 @@
+/**
+ * CSV file sink (flat columns, header written once per file, once per URL)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  ListingSink,
+  ListingWriteStats,
+  ScrapedListingInput,
+} from "./types";
+import { uniqueNew } from "./written";
+
+const COLUMNS = [
+  "store",
+  "productName",
+  "brand",
+  "ean",
+  "price",
+  "originalPrice",
+  "currency",
+  "inStock",
+  "productUrl",
+  "imageUrl",
+] as const;
+
+/**
+ * Quotes a value per RFC 4180 when it contains a separator, quote or newline
+ * @param v - Cell value
+ * @returns Escaped cell
+ */
+function csvCell(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180 quoting)
+ * @param text - File content
+ * @returns Complete rows; a last row without its newline is left out
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n") {
+      row.push(cell.replace(/\r$/, ""));
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Flattens a listing into the CSV columns
+ * @param l - Listing
+ * @returns Row values in COLUMNS order
+ */
+function toRow(l: ScrapedListingInput): unknown[] {
+  return [
+    l.store.name,
+    l.productName,
+    l.brand ?? "",
+    l.ean ?? "",
+    l.price,
+    l.originalPrice ?? "",
+    l.currency,
+    l.inStock,
+    l.productUrl,
+    l.imageUrl ?? "",
+  ];
+}
+
+export class CsvSink implements ListingSink {
+  readonly name = "csv";
+  private ready: Promise<Set<string>> | null = null;
+
+  /**
+   * @param filePath - Target file, e.g. `out/<site>/<runId>.csv` (appended to on resume)
+   */
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Appends one batch of listings, writing the header first for a new file.
+   * URLs already in the file (a batch that another sink failed, written
+   * again on resume) are skipped.
+   * @param batch - Listings to write
+   * @returns Row counts (new rows count as inserted)
+   */
+  async write(batch: ScrapedListingInput[]): Promise<ListingWriteStats> {
+    const written = await (this.ready ??= this.init().catch((e) => {
+      this.ready = null; // försök igen vid nästa batch
+      throw e;
+    }));
+    const fresh = uniqueNew(batch, written);
+    if (fresh.length > 0) {
+      const rows = fresh.map((l) => toRow(l).map(csvCell).join(","));
+      await fs.promises.appendFile(
+        this.filePath,
+        rows.join("\n") + "\n",
+        "utf8",
+      );
+      for (const l of fresh) written.add(l.productUrl);
+    }
+    return {
+      inserted: fresh.length,
+      updated: 0,
+      skipped: batch.length - fresh.length,
+    };
+  }
+
+  /** Creates the file with its header, or loads the product URLs it holds */
+  private async init(): Promise<Set<string>> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) {
+      await fs.promises.writeFile(this.filePath, COLUMNS.join(",") + "\n", "utf8");
+      return new Set();
+    }
+    const text = await fs.promises.readFile(this.filePath, "utf8");
+    // nästa rad ska inte hamna i slutet av en avbruten rad
+    if (text && !text.endsWith("\n")) {
+      await fs.promises.appendFile(this.filePath, "\n", "utf8");
+    }
+    const urlColumn = COLUMNS.indexOf("productUrl");
+    return new Set(
+      parseCsv(text)
+        .slice(1)
+        .filter((r) => r.length === COLUMNS.length)
+        .map((r) => r[urlColumn]),
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Database listing sink (Postgres or SQLite storage backend)
+ */
+
+import type { StorageBackend } from "../backends/types";
+import { envBool } from "../config/env";
+import type {
+  ListingSink,
+  ListingWriteStats,
+  ScrapedListingInput,
+} from "./types";
+
+export class DatabaseSink implements ListingSink {
+  readonly name: string;
+
+  /**
+   * @param backend - Where listings are stored
+   * @param scrapeRunId - scrape_runs row the written listings reference
+   */
+  constructor(
+    private readonly backend: StorageBackend,
+    private readonly scrapeRunId: number | null = null,
+  ) {
+    this.name = backend.name;
+  }
+
+  /**
+   * Screens the batch's prices, writes the listings and, with TRACK_HISTORY,
+   * their price changes and stock transitions – all in one transaction, so a
+   * failed batch leaves nothing behind and its retry sees the same rows. A
+   * held price is logged as the trusted one until a later crawl confirms it.
+   * @param batch - Listings to persist
+   * @returns Row counts
+   */
+  async write(batch: ScrapedListingInput[]): Promise<ListingWriteStats> {
+    return this.backend.writeListings(batch, {
+      scrapeRunId: this.scrapeRunId,
+      history: envBool("TRACK_HISTORY", true),
+    });
+  }
+}
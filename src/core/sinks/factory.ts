@@ -0,0 +1,149 @@
+/**
+ * Sink selection (`--sink jsonl,postgres`, SINKS env, ImportJobData.sinks)
+ */
+
+import path from "node:path";
+import {
+  getStorageBackend,
+  STORAGE_BACKENDS,
+  type StorageBackend,
+  type StorageBackendName,
+} from "../backends/index";
+import { CsvSink } from "./csv";
+import { DatabaseSink } from "./database";
+import { JsonlSink } from "./jsonl";
+import { StdoutSink } from "./stdout";
+import type {
+  ListingSink,
+  ListingWriteStats,
+  ScrapedListingInput,
+} from "./types";
+
+export const SINK_NAMES = [
+  "postgres",
+  "sqlite",
+  "jsonl",
+  "csv",
+  "stdout",
+] as const;
+export type SinkName = (typeof SINK_NAMES)[number];
+
+/** Per-run context: where file sinks put their output, which run rows belong to */
+export interface SinkContext {
+  outDirBase: string;
+  siteKey: string;
+  runId: string;
+  /** scrape_runs row for the database sink to reference */
+  scrapeRunId?: number | null;
+}
+
+/**
+ * Parses a sink list ("jsonl,postgres" or an array); duplicates are dropped
+ * @param spec - Comma-separated names or a list of names
+ * @returns Validated sink names (at least one)
+ * @throws Error for unknown names, an empty list or two database sinks
+ */
+export function parseSinkNames(spec: string | string[]): SinkName[] {
+  const names = (Array.isArray(spec) ? spec : spec.split(","))
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = names.filter((n) => !SINK_NAMES.includes(n as SinkName));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown sinks: ${unknown.join(", ")}. Available: ${SINK_NAMES.join(", ")}`,
+    );
+  }
+  if (names.length === 0) throw new Error("No sink selected");
+  // runloggen och crawl-state kan bara ligga i en databas
+  if (new Set(names.filter(isDatabaseSink)).size > 1) {
+    throw new Error(
+      `Choose one database sink: ${STORAGE_BACKENDS.join(" or ")}`,
+    );
+  }
+  return [...new Set(names)] as SinkName[];
+}
+
+const isDatabaseSink = (name: string): name is StorageBackendName =>
+  (STORAGE_BACKENDS as readonly string[]).includes(name);
+
+/**
+ * The storage backend behind the selected database sink; run records, crawl
+ * state and delisting use it as well
+ * @param names - Selected sinks
+ * @returns Backend, or null when no database sink is selected (file/stdout only)
+ */
+export async function storageBackendFor(
+  names: SinkName[],
+): Promise<StorageBackend | null> {
+  const name = names.find(isDatabaseSink);
+  return name ? getStorageBackend(name) : null;
+}
+
+/**
+ * Writes every batch to several sinks. A batch only counts as written when
+ * all sinks succeeded, so a failed batch is written again on resume – the
+ * database upsert and the file sinks (once per URL) make that harmless. The
+ * reported counts come from the first sink; createSink puts the database
+ * sink first.
+ */
+export class FanoutSink implements ListingSink {
+  readonly name: string;
+
+  constructor(private readonly sinks: ListingSink[]) {
+    this.name = sinks.map((s) => s.name).join("+");
+  }
+
+  async write(batch: ScrapedListingInput[]): Promise<ListingWriteStats> {
+    const results = await Promise.allSettled(
+      this.sinks.map((s) => s.write(batch)),
+    );
+    const failed = results
+      .map((r, i) =>
+        r.status === "rejected"
+          ? `${this.sinks[i].name}: ${r.reason?.message || r.reason}`
+          : null,
+      )
+      .filter(Boolean);
+    if (failed.length > 0) throw new Error(failed.join("; "));
+    return (results[0] as PromiseFulfilledResult<ListingWriteStats>).value;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map((s) => s.close?.()));
+  }
+}
+
+/**
+ * Builds the sink for one site run
+ * @param names - Selected sinks
+ * @param ctx - Output directory, site and run ID (file sinks write `<outDirBase>/<site>/<runId>.<ext>`)
+ * @returns A single sink, or a fan-out over several
+ */
+export async function createSink(
+  names: SinkName[],
+  ctx: SinkContext,
+): Promise<ListingSink> {
+  const file = (ext: string) =>
+    path.join(ctx.outDirBase, ctx.siteKey, `${ctx.runId}.${ext}`);
+  // räkningar (och historikrader) kommer från databasen när den är med
+  const ordered = [
+    ...names.filter(isDatabaseSink),
+    ...names.filter((n) => !isDatabaseSink(n)),
+  ];
+  // parseSinkNames släpper bara igenom en databas-sink
+  const backend = await storageBackendFor(names);
+  const sinks = ordered.map((name): ListingSink => {
+    switch (name) {
+      case "postgres":
+      case "sqlite":
+        return new DatabaseSink(backend!, ctx.scrapeRunId);
+      case "jsonl":
+        return new JsonlSink(file("jsonl"));
+      case "csv":
+        return new CsvSink(file("csv"));
+      case "stdout":
+        return new StdoutSink();
+    }
+  });
+  return sinks.length === 1 ? sinks[0] : new FanoutSink(sinks);
+}
@@ -0,0 +1,11 @@
+/**
+ * Sinks module index
+ */
+
+export * from "./types";
+export * from "./pipeline";
+export * from "./database";
+export * from "./jsonl";
+export * from "./csv";
+export * from "./stdout";
+export * from "./factory";
@@ -0,0 +1,68 @@
+/**
+ * JSONL file sink (one listing per line, appended per batch, once per URL)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  ListingSink,
+  ListingWriteStats,
+  ScrapedListingInput,
+} from "./types";
+import { uniqueNew } from "./written";
+
+export class JsonlSink implements ListingSink {
+  readonly name = "jsonl";
+  private written: Promise<Set<string>> | null = null;
+
+  /**
+   * @param filePath - Target file, e.g. `out/<site>/<runId>.jsonl` (appended to on resume)
+   */
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Appends one batch of listings. URLs already in the file (a batch that
+   * another sink failed, written again on resume) are skipped.
+   * @param batch - Listings to write
+   * @returns Row counts (new rows count as inserted)
+   */
+  async write(batch: ScrapedListingInput[]): Promise<ListingWriteStats> {
+    const written = await (this.written ??= this.load().catch((e) => {
+      this.written = null; // försök igen vid nästa batch
+      throw e;
+    }));
+    const fresh = uniqueNew(batch, written);
+    if (fresh.length > 0) {
+      const lines = fresh.map((l) => JSON.stringify(l)).join("\n");
+      await fs.promises.appendFile(this.filePath, lines + "\n", "utf8");
+      for (const l of fresh) written.add(l.productUrl);
+    }
+    return {
+      inserted: fresh.length,
+      updated: 0,
+      skipped: batch.length - fresh.length,
+    };
+  }
+
+  /** Product URLs already in the file (a torn last line is ignored) */
+  private async load(): Promise<Set<string>> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const urls = new Set<string>();
+    if (!fs.existsSync(this.filePath)) return urls;
+    const text = await fs.promises.readFile(this.filePath, "utf8");
+    // nästa rad ska inte hamna i slutet av en avbruten rad
+    if (text && !text.endsWith("\n")) {
+      await fs.promises.appendFile(this.filePath, "\n", "utf8");
+    }
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const url = JSON.parse(line)?.productUrl;
+        if (typeof url === "string") urls.add(url);
+      } catch {
+        // avbruten skrivning – raden skrivs om
+      }
+    }
+    return urls;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Buffered, backpressured pipeline in front of a listing sink
+ */
+
+import { envInt } from "../config/env";
+import type { ListingSink, PendingListing, SinkStats } from "./types";
+
+export interface ListingPipelineOptions {
+  /** Flush when this many listings are buffered (default env SINK_BATCH_SIZE or 50) */
+  batchSize?: number;
+  /** Flush at least this often while listings are waiting (default env SINK_FLUSH_MS or 5000) */
+  flushIntervalMs?: number;
+  /** Producers wait once this many listings are buffered or in flight (default 4 × batchSize) */
+  maxBuffered?: number;
+  /** Called after a batch has been written (only for batches that did not throw) */
+  onFlushed?: (urls: string[], stats: SinkStats) => void | Promise<void>;
+}
+
+/**
+ * Collects listings from crawl tasks and writes them to a sink in bounded
+ * batches. Flushes are size- and time-triggered and run one at a time;
+ * `push` blocks while the buffer is full so crawling cannot outrun the sink.
+ */
+export class ListingPipeline {
+  private buffer: PendingListing[] = [];
+  private inFlight = 0;
+  private flushing: Promise<void> | null = null;
+  private readonly waiters: Array<() => void> = [];
+  private readonly timer: NodeJS.Timeout;
+  private readonly batchSize: number;
+  private readonly maxBuffered: number;
+  private readonly totals: SinkStats = {
+    inserted: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    flushes: 0,
+    priceChanges: 0,
+    stockChanges: 0,
+    priceFlags: 0,
+  };
+
+  constructor(
+    private readonly sink: ListingSink,
+    private readonly options: ListingPipelineOptions = {},
+  ) {
+    this.batchSize = Math.max(
+      1,
+      options.batchSize ?? envInt("SINK_BATCH_SIZE", 50),
+    );
+    this.maxBuffered = Math.max(
+      this.batchSize,
+      options.maxBuffered ?? this.batchSize * 4,
+    );
+    const interval = Math.max(
+      100,
+      options.flushIntervalMs ?? envInt("SINK_FLUSH_MS", 5000),
+    );
+    this.timer = setInterval(() => {
+      if (this.buffer.length > 0) void this.flush();
+    }, interval);
+    this.timer.unref();
+  }
+
+  /** Totals so far */
+  get stats(): SinkStats {
+    return { ...this.totals };
+  }
+
+  /**
+   * Queue a listing; waits while the pipeline is full (backpressure)
+   * @param item - Listing plus the crawled URL it belongs to
+   */
+  async push(item: PendingListing): Promise<void> {
+    while (this.buffer.length + this.inFlight >= this.maxBuffered) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    this.buffer.push(item);
+    if (this.buffer.length >= this.batchSize) void this.flush();
+  }
+
+  /**
+   * Write everything currently buffered (serialised with running flushes)
+   */
+  async flush(): Promise<void> {
+    while (this.flushing) await this.flushing;
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer.splice(0, this.batchSize);
+    this.inFlight = batch.length;
+    this.flushing = this.writeBatch(batch).finally(() => {
+      this.inFlight = 0;
+      this.flushing = null;
+      this.waiters.splice(0).forEach((wake) => wake());
+    });
+    await this.flushing;
+    if (this.buffer.length >= this.batchSize) await this.flush();
+  }
+
+  /**
+   * Flush the remainder and close the sink
+   * @returns Final totals
+   */
+  async close(): Promise<SinkStats> {
+    clearInterval(this.timer);
+    while (this.buffer.length > 0 || this.flushing) await this.flush();
+    await this.sink.close?.();
+    return this.stats;
+  }
+
+  private async writeBatch(batch: PendingListing[]) {
+    try {
+      const res = await this.sink.write(batch.map((b) => b.listing));
+      this.totals.inserted += res.inserted;
+      this.totals.updated += res.updated;
+      this.totals.skipped += res.skipped;
+      this.totals.priceChanges += res.priceChanges ?? 0;
+      this.totals.stockChanges += res.stockChanges ?? 0;
+      this.totals.priceFlags += res.priceFlags ?? 0;
+      this.totals.flushes++;
+      await this.options.onFlushed?.(batch.map((b) => b.url), {
+        ...res,
+        failed: 0,
+        flushes: 1,
+        priceChanges: res.priceChanges ?? 0,
+        stockChanges: res.stockChanges ?? 0,
+        priceFlags: res.priceFlags ?? 0,
+      });
+    } catch (e: any) {
+      // raderna skrivs inte som klara – en omstart med samma runId tar dem igen
+      this.totals.failed += batch.length;
+      console.warn(
+        `[warn] sink ${this.sink.name} failed to write ${batch.length} listings: ${
+          e?.message || e
+        }`,
+      );
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * NDJSON sink on stdout (for piping into other tools)
+ */
+
+import { routeLogsToStderr } from "../utils/logger";
+import type {
+  ListingSink,
+  ListingWriteStats,
+  ScrapedListingInput,
+} from "./types";
+
+export class StdoutSink implements ListingSink {
+  readonly name = "stdout";
+
+  constructor() {
+    // stdout är reserverad för listings – all loggning flyttas till stderr
+    routeLogsToStderr();
+  }
+
+  /**
+   * Prints one JSON object per listing. Logs go to stderr, so stdout
+   * carries nothing but the NDJSON stream.
+   * @param batch - Listings to print
+   * @returns Row counts (every row counts as inserted)
+   */
+  async write(batch: ScrapedListingInput[]): Promise<ListingWriteStats> {
+    const out = batch.map((l) => JSON.stringify(l) + "\n").join("");
+    // vänta på drain så att en långsam läsare bromsar pipelinen
+    if (!process.stdout.write(out)) {
+      await new Promise<void>((resolve) => process.stdout.once("drain", resolve));
+    }
+    return { inserted: batch.length, updated: 0, skipped: 0 };
+  }
+}
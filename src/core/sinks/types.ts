@@ -0,0 +1,34 @@
+/**
+ * Listing sink types
+ */
+
+import type { ListingWriteStats, ScrapedListingInput } from "../storage";
+
+export type { ListingWriteStats, ScrapedListingInput };
+
+/**
+ * Destination for scraped listings. `write` receives one bounded batch at a
+ * time and reports what happened to the rows.
+ */
+export interface ListingSink {
+  /** Short name used in logs, e.g. "postgres" */
+  readonly name: string;
+  write(batch: ScrapedListingInput[]): Promise<ListingWriteStats>;
+  close?(): Promise<void>;
+}
+
+/** Running totals for a sink pipeline */
+export interface SinkStats extends ListingWriteStats {
+  /** Rows in batches whose write threw */
+  failed: number;
+  flushes: number;
+  priceChanges: number;
+  stockChanges: number;
+  priceFlags: number;
+}
+
+/** A listing together with the crawled URL it came from */
+export interface PendingListing {
+  url: string;
+  listing: ScrapedListingInput;
+}
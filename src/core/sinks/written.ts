@@ -0,0 +1,23 @@
+/**
+ * Per-URL bookkeeping for the file sinks
+ */
+
+import type { ScrapedListingInput } from "./types";
+
+/**
+ * Listings whose product URL the file does not hold yet. A URL that occurs
+ * twice in one batch keeps its last listing, as the database upsert does.
+ * @param batch - Listings to write
+ * @param written - Product URLs already in the file
+ * @returns Listings to append
+ */
+export function uniqueNew(
+  batch: ScrapedListingInput[],
+  written: Set<string>,
+): ScrapedListingInput[] {
+  const byUrl = new Map<string, ScrapedListingInput>();
+  for (const l of batch) {
+    if (!written.has(l.productUrl)) byUrl.set(l.productUrl, l);
+  }
+  return [...byUrl.values()];
+}
@@ -1,6 +1,31 @@
 // src/core/sitemap.ts
 import { SitemapEntry } from "./types/index";
 
+/**
+ * Plocka ut alla <url>-entries { loc, lastmod } ur en urlset.
+ * Tolerant mot ordning/whitespace inne i <url>-blocket. Saknas <url>-block
+ * helt (t.ex. <ns:url> eller trasig XML) tas varje <loc> utan lastmod.
+ */
+export function parseUrlsetEntries(xml: string): SitemapEntry[] {
+  const out: SitemapEntry[] = [];
+  const blockRe = /<url>([\s\S]*?)<\/url>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = blockRe.exec(xml))) {
+    const block = m[1];
+    const loc = /<loc>\s*([^<\s][^<]*)\s*<\/loc>/i.exec(block)?.[1]?.trim();
+    if (!loc) continue;
+    const lastmod = /<lastmod>\s*([^<]+?)\s*<\/lastmod>/i
+      .exec(block)?.[1]
+      ?.trim();
+    out.push({ loc, lastmod });
+  }
+  if (out.length > 0) return out;
+
+  const locRe = /<loc>\s*([^<\s][^<]*)\s*<\/loc>/gi;
+  while ((m = locRe.exec(xml))) out.push({ loc: m[1].trim() });
+  return out;
+}
+
 /**
  * Hämta och parsa en sitemap eller sitemap-index.
  * Returnerar alla entries { loc, lastmod } och kan filtrera med RegExp.
@@ -45,16 +70,11 @@ export async function fetchSitemapEntries(
     }
 
     // urlset
-    const urlRe =
-      /<url>\s*<loc>([^<]+)<\/loc>(?:\s*<lastmod>([^<]+)<\/lastmod>)?/gi;
-    let m: RegExpExecArray | null;
-    while ((m = urlRe.exec(xml))) {
-      const loc = m[1].trim();
-      const lastmod = m[2]?.trim();
-      if (filter && !filter.test(loc)) continue;
-      if (!seen.has(loc)) {
-        seen.add(loc);
-        out.push({ loc, lastmod });
+    for (const entry of parseUrlsetEntries(xml)) {
+      if (filter && !filter.test(entry.loc)) continue;
+      if (!seen.has(entry.loc)) {
+        seen.add(entry.loc);
+        out.push(entry);
       }
     }
   }
@@ -1,7 +1,41 @@
 // src/core/storage.ts
-import { eq, inArray } from "drizzle-orm";
-import { scrapedProductListings, scrapedStores, stores } from "../schema";
-import { db } from "./drizzleClient";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  sql,
+} from "drizzle-orm";
+import {
+  scrapeRuns,
+  scrapedListingRejects,
+  scrapedPriceHistory,
+  scrapedProductListings,
+  scrapedStockTransitions,
+  scrapedStores,
+  scrapedUrlState,
+  stores,
+} from "../schema";
+import { upsertCatalogueProducts, type CatalogueCandidate } from "./catalogue";
+import { envStr } from "./config/env";
+import { db, type DbTransaction } from "./drizzleClient";
+import { diffProduct } from "./product/ean";
+import { toGtin14 } from "./product/gtin";
+import {
+  checkPrice,
+  priceAnomalyRatio,
+  storedPrices,
+  trustedPrices,
+  type PriceCheck,
+  type PriceState,
+} from "./product/price-anomaly";
+import type { Product, Snapshot } from "./types/product";
+import { toMinorUnits } from "./utils/price";
+import { DB_RETRY_OPTIONS, withRetry } from "./utils/retry";
 import sanitizeEan from "./utils/sanitizeEan";
 
 function getTopLevelDomain(urlOrHost: string): string {
@@ -61,38 +95,954 @@ export async function saveScrapedStoreDrizzle(store: {
   return { scrapedStoreId: scrapedRowId, matchedStoreId };
 }
 
+/** store-id per domän, löses en gång per process (körning) */
+const storeIdCache = new Map<
+  string,
+  Promise<{ scrapedStoreId: number; matchedStoreId: number | null }>
+>();
+
+/**
+ * Cached saveScrapedStoreDrizzle – the store rows never change during a run
+ * @param store - Store name and domain
+ * @returns scraped_stores ID and the matched main store ID, if any
+ */
+export function getScrapedStoreIds(store: {
+  name: string;
+  domain: string;
+}): Promise<{ scrapedStoreId: number; matchedStoreId: number | null }> {
+  const key = store.domain.toLowerCase();
+  let ids = storeIdCache.get(key);
+  if (!ids) {
+    ids = withRetry(() => saveScrapedStoreDrizzle(store), DB_RETRY_OPTIONS);
+    // misslyckad uppslagning ska inte cachas
+    ids.catch(() => storeIdCache.delete(key));
+    storeIdCache.set(key, ids);
+  }
+  return ids;
+}
+
+/** One scraped listing as produced by the runner */
+export interface ScrapedListingInput {
+  productName: string;
+  ean?: string | null;
+  /** Price in major units (e.g. 49.9) */
+  price: number;
+  originalPrice?: number | null;
+  brand?: string | null;
+  currency: string;
+  /** Null when the page did not say */
+  inStock: boolean | null;
+  productUrl: string;
+  imageUrl?: string | null;
+  store: { name: string; domain: string };
+  rawData?: any;
+  /** Set by screenListingPrices; absent means the price is trusted */
+  priceCheck?: PriceCheck;
+}
+
+/** Row counts for one listing write */
+export interface ListingWriteStats {
+  inserted: number;
+  updated: number;
+  /** Rows that were not written (e.g. no product URL to key on) */
+  skipped: number;
+  /** Rows added to scraped_price_history */
+  priceChanges?: number;
+  /** Rows added to scraped_stock_transitions */
+  stockChanges?: number;
+  /** Listings whose price was held or flagged by the sanity check */
+  priceFlags?: number;
+}
+
+/** Rader per INSERT (håller oss långt under Postgres parametergräns) */
+const INSERT_CHUNK = 500;
+
+/**
+ * Upserts scraped listings on (store, normalized product URL). Existing rows
+ * get the new price, stock, name, image and raw data; created_at stays as
+ * the first-seen time. A price held by screenListingPrices keeps the
+ * trusted price columns. Prices are stored exactly in minor units. Listings
+ * with a valid GTIN are attached to their scraped_products catalogue row.
+ * Rows are written with multi-row inserts in one transaction, retried on
+ * transient database errors (DB_RETRY_OPTIONS).
+ * @param listings - Listings to persist
+ * @param scrapeRunId - scrape_runs row the listings belong to
+ * @returns Row counts for the write
+ */
 export async function saveScrapedProductListings(
-  listings: Array<{
-    productName: string;
-    ean?: string | null;
-    price: number;
-    currency: string;
-    inStock: boolean;
-    productUrl: string;
-    imageUrl?: string | null;
-    store: { name: string; domain: string };
-    rawData?: any;
-  }>,
-) {
+  listings: ScrapedListingInput[],
+  scrapeRunId?: number | null,
+): Promise<ListingWriteStats> {
+  return withRetry(
+    () => db.transaction((tx) => upsertListings(tx, listings, scrapeRunId)),
+    DB_RETRY_OPTIONS,
+  );
+}
+
+/**
+ * Writes one sink batch atomically: screens the prices, upserts the listings
+ * and, with history, appends their price changes and stock transitions. The
+ * transaction is retried as a whole, so a retried batch diffs against the
+ * same rows as the attempt that failed.
+ * @param listings - Listings from one write batch
+ * @param options - scrape_runs row, and whether to write history rows
+ * @returns Row counts, including history rows and flagged prices
+ */
+export async function writeListingBatch(
+  listings: ScrapedListingInput[],
+  options: { scrapeRunId?: number | null; history: boolean },
+): Promise<ListingWriteStats> {
+  return withRetry(
+    () =>
+      db.transaction(async (tx) => {
+        const screened = await screenPrices(tx, listings);
+        const stats = await upsertListings(tx, screened, options.scrapeRunId);
+        stats.priceFlags = screened.filter((l) => l.priceCheck?.flag).length;
+        if (options.history) {
+          stats.priceChanges = await insertPriceChanges(
+            tx,
+            screened,
+            options.scrapeRunId,
+          );
+          stats.stockChanges = await insertStockTransitions(
+            tx,
+            screened,
+            options.scrapeRunId,
+          );
+        }
+        return stats;
+      }),
+    DB_RETRY_OPTIONS,
+  );
+}
+
+async function upsertListings(
+  tx: DbTransaction,
+  listings: ScrapedListingInput[],
+  scrapeRunId?: number | null,
+): Promise<ListingWriteStats> {
+  const stats: ListingWriteStats = { inserted: 0, updated: 0, skipped: 0 };
+
+  // samma rad två gånger i en INSERT ... ON CONFLICT är inte tillåtet – sista vinner
+  const byKey = new Map<string, typeof scrapedProductListings.$inferInsert>();
+  const gtinByKey = new Map<string, CatalogueCandidate>();
   for (const l of listings) {
-    const storeIds = await saveScrapedStoreDrizzle(l.store);
+    if (!l.productUrl) {
+      stats.skipped++;
+      continue;
+    }
+    const storeIds = await getScrapedStoreIds(l.store);
     const rawEan = l.ean ?? l.rawData?.ean ?? null;
     const ean = rawEan ? sanitizeEan(rawEan) : null;
-    const priceInt = Number.isFinite(l.price) ? Math.round(l.price) : null;
-    await db
+    const prices = storedPrices(l.price, l.originalPrice, l.priceCheck);
+    const key = `${storeIds.scrapedStoreId}|${l.productUrl}`;
+    if (byKey.has(key)) stats.skipped++;
+    const gtin14 = toGtin14(rawEan);
+    if (gtin14) {
+      gtinByKey.set(key, {
+        gtin14,
+        name: l.productName,
+        brand: l.brand,
+        imageUrl: l.imageUrl,
+      });
+    } else {
+      gtinByKey.delete(key);
+    }
+    byKey.set(key, {
+      productName: l.productName,
+      ean: ean,
+      ...prices,
+      price: prices.price ?? undefined,
+      brand: l.brand?.trim() || null,
+      currency: l.currency,
+      inStock: l.inStock,
+      productUrl: l.productUrl,
+      imageUrl: l.imageUrl || null,
+      scrapedStoreId: storeIds.scrapedStoreId,
+      matchedStoreId: storeIds.matchedStoreId ?? undefined,
+      scrapeRunId: scrapeRunId ?? undefined,
+      rawData: l.rawData ? l.rawData : {},
+    });
+  }
+  if (byKey.size === 0) return stats;
+
+  const now = new Date();
+  const productIds = await upsertCatalogueProducts(tx, [
+    ...gtinByKey.values(),
+  ]);
+  const values = [...byKey].map(([key, v]) => ({
+    ...v,
+    productId: productIds.get(gtinByKey.get(key)?.gtin14 ?? "") ?? null,
+  }));
+  for (let i = 0; i < values.length; i += INSERT_CHUNK) {
+    const rows = await tx
       .insert(scrapedProductListings)
-      .values({
-        productName: l.productName,
-        ean: ean,
-        price: priceInt ?? undefined,
-        currency: l.currency,
+      .values(values.slice(i, i + INSERT_CHUNK))
+      .onConflictDoUpdate({
+        target: [
+          scrapedProductListings.scrapedStoreId,
+          scrapedProductListings.productUrl,
+        ],
+        set: {
+          productName: sql`excluded.product_name`,
+          ean: sql`coalesce(excluded.ean, ${scrapedProductListings.ean})`,
+          price: sql`excluded.price`,
+          priceMinor: sql`excluded.price_minor`,
+          originalPriceMinor: sql`excluded.original_price_minor`,
+          discountPercent: sql`excluded.discount_percent`,
+          suspectPriceMinor: sql`excluded.suspect_price_minor`,
+          priceFlag: sql`excluded.price_flag`,
+          brand: sql`coalesce(excluded.brand, ${scrapedProductListings.brand})`,
+          currency: sql`excluded.currency`,
+          inStock: sql`excluded.in_stock`,
+          imageUrl: sql`excluded.image_url`,
+          matchedStoreId: sql`excluded.matched_store_id`,
+          scrapeRunId: sql`excluded.scrape_run_id`,
+          // utan GTIN behålls en tidigare (t.ex. manuell) koppling
+          productId: sql`coalesce(excluded.product_id, ${scrapedProductListings.productId})`,
+          rawData: sql`excluded.raw_data`,
+          // produkten svarade igen – den är inte längre avlistad
+          missedRuns: 0,
+          delistedAt: null,
+          delistedReason: null,
+          updatedAt: now,
+        },
+      })
+      // xmax = 0 bara för nyinsatta rader
+      .returning({ inserted: sql<boolean>`(xmax = 0)` });
+    for (const r of rows) {
+      if (r.inserted) stats.inserted++;
+      else stats.updated++;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Sanity-check each listing's price against its stored row (previous trusted
+ * price, held suspect price) and its originalPrice. See checkPrice.
+ * @param listings - Listings from one write batch
+ * @returns The listings with priceCheck set
+ */
+export async function screenListingPrices(
+  listings: ScrapedListingInput[],
+): Promise<ScrapedListingInput[]> {
+  return screenPrices(db, listings);
+}
+
+async function screenPrices(
+  tx: typeof db | DbTransaction,
+  listings: ScrapedListingInput[],
+): Promise<ScrapedListingInput[]> {
+  const ratio = priceAnomalyRatio();
+  if (ratio <= 0 || listings.length === 0) return listings;
+
+  const stateByKey = new Map<string, PriceState>();
+  const byDomain = new Map<string, ScrapedListingInput[]>();
+  for (const l of listings) {
+    const group = byDomain.get(l.store.domain) ?? [];
+    group.push(l);
+    byDomain.set(l.store.domain, group);
+  }
+  for (const group of byDomain.values()) {
+    const { scrapedStoreId } = await getScrapedStoreIds(group[0].store);
+    const urls = [...new Set(group.map((l) => l.productUrl))];
+    for (let i = 0; i < urls.length; i += UPDATE_CHUNK) {
+      const rows = await tx
+        .select({
+          productUrl: scrapedProductListings.productUrl,
+          priceMinor: scrapedProductListings.priceMinor,
+          originalPriceMinor: scrapedProductListings.originalPriceMinor,
+          suspectPriceMinor: scrapedProductListings.suspectPriceMinor,
+        })
+        .from(scrapedProductListings)
+        .where(
+          and(
+            eq(scrapedProductListings.scrapedStoreId, scrapedStoreId),
+            inArray(
+              scrapedProductListings.productUrl,
+              urls.slice(i, i + UPDATE_CHUNK),
+            ),
+          ),
+        );
+      for (const { productUrl, ...state } of rows) {
+        stateByKey.set(`${group[0].store.domain}|${productUrl}`, state);
+      }
+    }
+  }
+
+  return listings.map((l) => ({
+    ...l,
+    priceCheck: checkPrice(
+      {
+        priceMinor: toMinorUnits(l.price),
+        originalPriceMinor: toMinorUnits(l.originalPrice),
+      },
+      stateByKey.get(`${l.store.domain}|${l.productUrl}`) ?? null,
+      ratio,
+    ),
+  }));
+}
+
+/** Fält som kan spåras i scraped_price_history */
+const HISTORY_FIELDS = ["price", "originalPrice", "inStock", "currency"];
+
+/**
+ * Fields whose changes create a history row (PRICE_HISTORY_FIELDS)
+ * @returns Tracked fields (unknown names are ignored)
+ */
+export function priceHistoryFields(): (keyof Product)[] {
+  return envStr("PRICE_HISTORY_FIELDS", "price,originalPrice,inStock")
+    .split(",")
+    .map((f) => f.trim())
+    .filter((f) => HISTORY_FIELDS.includes(f)) as (keyof Product)[];
+}
+
+/**
+ * Append a price history row for every listing whose tracked fields
+ * (PRICE_HISTORY_FIELDS) differ from its latest history row. Uses the same
+ * diffing as upsertByEan, except that a vanished originalPrice counts as a
+ * change (the deal ended). A held or unusable price is logged as the last
+ * trusted one (trustedPrices), so stock and currency changes still get a
+ * row; listings without any trusted price yet are skipped.
+ * @param listings - Listings from one write batch
+ * @param scrapeRunId - Run that observed the values
+ * @returns Number of history rows written
+ */
+export async function recordPriceChanges(
+  listings: ScrapedListingInput[],
+  scrapeRunId?: number | null,
+): Promise<number> {
+  return withRetry(
+    () =>
+      db.transaction((tx) => insertPriceChanges(tx, listings, scrapeRunId)),
+    DB_RETRY_OPTIONS,
+  );
+}
+
+async function insertPriceChanges(
+  tx: DbTransaction,
+  listings: ScrapedListingInput[],
+  scrapeRunId?: number | null,
+): Promise<number> {
+  const fields = priceHistoryFields();
+  if (fields.length === 0 || listings.length === 0) return 0;
+  const now = new Date();
+
+  const byDomain = new Map<string, ScrapedListingInput[]>();
+  for (const l of listings) {
+    const group = byDomain.get(l.store.domain) ?? [];
+    group.push(l);
+    byDomain.set(l.store.domain, group);
+  }
+
+  let written = 0;
+  for (const group of byDomain.values()) {
+    const { scrapedStoreId } = await getScrapedStoreIds(group[0].store);
+    const urls = [...new Set(group.map((l) => l.productUrl))];
+    const latest = await tx
+      .selectDistinctOn([scrapedPriceHistory.productUrl], {
+        productUrl: scrapedPriceHistory.productUrl,
+        price: scrapedPriceHistory.priceMinor,
+        originalPrice: scrapedPriceHistory.originalPriceMinor,
+        currency: scrapedPriceHistory.currency,
+        inStock: scrapedPriceHistory.inStock,
+      })
+      .from(scrapedPriceHistory)
+      .where(
+        and(
+          eq(scrapedPriceHistory.scrapedStoreId, scrapedStoreId),
+          inArray(scrapedPriceHistory.productUrl, urls),
+        ),
+      )
+      .orderBy(
+        scrapedPriceHistory.productUrl,
+        desc(scrapedPriceHistory.recordedAt),
+        desc(scrapedPriceHistory.id),
+      );
+    const prevByUrl = new Map<string, Partial<Product>>(
+      latest.map((r) => [r.productUrl, r]),
+    );
+
+    const rows: (typeof scrapedPriceHistory.$inferInsert)[] = [];
+    for (const l of group) {
+      // priser jämförs i minor units så att 49,90 -> 49,50 syns
+      // ett flaggat pris hålls utanför historiken: raden bär senast betrodda
+      // priser så att lager/valuta ändå loggas
+      const prev = prevByUrl.get(l.productUrl);
+      const prices = trustedPrices(
+        l.price,
+        l.originalPrice,
+        l.priceCheck,
+        prev && {
+          priceMinor: prev.price ?? null,
+          originalPriceMinor: prev.originalPrice ?? null,
+        },
+      );
+      if (!prices) continue;
+      const current: Partial<Product> = {
+        price: prices.priceMinor,
+        originalPrice: prices.originalPriceMinor,
+        currency: l.currency || null,
         inStock: l.inStock,
+      };
+
+      const changed = prev
+        ? Object.keys(diffProduct(prev, current, fields, false))
+        : fields;
+      if (changed.length === 0) continue;
+
+      const rawEan = l.ean ?? l.rawData?.ean ?? null;
+      rows.push({
+        scrapedStoreId,
         productUrl: l.productUrl,
-        imageUrl: l.imageUrl || null,
-        scrapedStoreId: storeIds.scrapedStoreId,
-        matchedStoreId: storeIds.matchedStoreId ?? undefined,
-        rawData: l.rawData ? l.rawData : {},
+        ean: rawEan ? sanitizeEan(rawEan) : null,
+        priceMinor: current.price,
+        originalPriceMinor: current.originalPrice,
+        currency: current.currency,
+        inStock: current.inStock,
+        changedFields: changed,
+        scrapeRunId: scrapeRunId ?? null,
+        recordedAt: now,
+      });
+      prevByUrl.set(l.productUrl, current);
+    }
+
+    if (rows.length > 0) {
+      await tx.insert(scrapedPriceHistory).values(rows);
+      written += rows.length;
+    }
+  }
+  return written;
+}
+
+/**
+ * Append a stock transition for every listing whose known stock state differs
+ * from its latest transition row (the first known state is logged with
+ * previous_in_stock = null). Listings with unknown stock are skipped, so
+ * in stock -> unknown -> out of stock is one transition.
+ * @param listings - Listings from one write batch
+ * @param scrapeRunId - Run that observed the values
+ * @returns Number of transition rows written
+ */
+export async function recordStockTransitions(
+  listings: ScrapedListingInput[],
+  scrapeRunId?: number | null,
+): Promise<number> {
+  return withRetry(
+    () =>
+      db.transaction((tx) =>
+        insertStockTransitions(tx, listings, scrapeRunId),
+      ),
+    DB_RETRY_OPTIONS,
+  );
+}
+
+async function insertStockTransitions(
+  tx: DbTransaction,
+  listings: ScrapedListingInput[],
+  scrapeRunId?: number | null,
+): Promise<number> {
+  const known = listings.filter((l) => l.inStock !== null);
+  if (known.length === 0) return 0;
+  const now = new Date();
+
+  const byDomain = new Map<string, ScrapedListingInput[]>();
+  for (const l of known) {
+    const group = byDomain.get(l.store.domain) ?? [];
+    group.push(l);
+    byDomain.set(l.store.domain, group);
+  }
+
+  let written = 0;
+  for (const group of byDomain.values()) {
+    const { scrapedStoreId } = await getScrapedStoreIds(group[0].store);
+    const urls = [...new Set(group.map((l) => l.productUrl))];
+    const latest = await tx
+      .selectDistinctOn([scrapedStockTransitions.productUrl], {
+        productUrl: scrapedStockTransitions.productUrl,
+        inStock: scrapedStockTransitions.inStock,
       })
-      .onConflictDoNothing();
+      .from(scrapedStockTransitions)
+      .where(
+        and(
+          eq(scrapedStockTransitions.scrapedStoreId, scrapedStoreId),
+          inArray(scrapedStockTransitions.productUrl, urls),
+        ),
+      )
+      .orderBy(
+        scrapedStockTransitions.productUrl,
+        desc(scrapedStockTransitions.recordedAt),
+        desc(scrapedStockTransitions.id),
+      );
+    const prevByUrl = new Map(latest.map((r) => [r.productUrl, r.inStock]));
+
+    const rows: (typeof scrapedStockTransitions.$inferInsert)[] = [];
+    for (const l of group) {
+      const prev = prevByUrl.get(l.productUrl);
+      if (prev === l.inStock) continue;
+      const rawEan = l.ean ?? l.rawData?.ean ?? null;
+      rows.push({
+        scrapedStoreId,
+        productUrl: l.productUrl,
+        ean: rawEan ? sanitizeEan(rawEan) : null,
+        inStock: l.inStock!,
+        previousInStock: prev ?? null,
+        scrapeRunId: scrapeRunId ?? null,
+        recordedAt: now,
+      });
+      prevByUrl.set(l.productUrl, l.inStock!);
+    }
+
+    if (rows.length > 0) {
+      await tx.insert(scrapedStockTransitions).values(rows);
+      written += rows.length;
+    }
+  }
+  return written;
+}
+
+/** Kind of stock event derived from a transition */
+export type StockEventKind = "back_in_stock" | "out_of_stock";
+
+/** A stock transition joined with its listing */
+export interface StockEvent {
+  id: number;
+  kind: StockEventKind;
+  store: string;
+  productUrl: string;
+  ean: string | null;
+  /** Null when the listing row is gone */
+  listingId: number | null;
+  productName: string | null;
+  /** Catalogue product, when linked */
+  productId: number | null;
+  recordedAt: Date;
+}
+
+/**
+ * Stock events recorded after a point in time, oldest first – poll with the
+ * last seen recordedAt/id to notify about e.g. medicines coming back in stock.
+ * First known states are not events.
+ * @param options.since - Only events recorded after this time
+ * @param options.kind - Only this kind (default both)
+ * @param options.productId - Only listings linked to this catalogue product
+ * @param options.limit - Max rows (default 500)
+ * @returns Events with listing details
+ */
+export async function listStockEvents(
+  options: {
+    since?: Date;
+    kind?: StockEventKind;
+    productId?: number;
+    limit?: number;
+  } = {},
+): Promise<StockEvent[]> {
+  const t = scrapedStockTransitions;
+  const rows = await db
+    .select({
+      id: t.id,
+      inStock: t.inStock,
+      store: scrapedStores.name,
+      productUrl: t.productUrl,
+      ean: t.ean,
+      listingId: scrapedProductListings.id,
+      productName: scrapedProductListings.productName,
+      productId: scrapedProductListings.productId,
+      recordedAt: t.recordedAt,
+    })
+    .from(t)
+    .innerJoin(scrapedStores, eq(scrapedStores.id, t.scrapedStoreId))
+    .leftJoin(
+      scrapedProductListings,
+      and(
+        eq(scrapedProductListings.scrapedStoreId, t.scrapedStoreId),
+        eq(scrapedProductListings.productUrl, t.productUrl),
+      ),
+    )
+    .where(
+      and(
+        isNotNull(t.previousInStock),
+        options.since ? gt(t.recordedAt, options.since) : undefined,
+        options.kind
+          ? eq(t.inStock, options.kind === "back_in_stock")
+          : undefined,
+        options.productId
+          ? eq(scrapedProductListings.productId, options.productId)
+          : undefined,
+      ),
+    )
+    .orderBy(asc(t.recordedAt), asc(t.id))
+    .limit(options.limit ?? 500);
+
+  return rows.map(({ inStock, ...r }) => ({
+    ...r,
+    kind: inStock ? "back_in_stock" : "out_of_stock",
+  }));
+}
+
+/** Senast kända crawl-status för en URL (delta/refresh) */
+export interface CrawlStateEntry {
+  lastmod: Date | null;
+  lastCrawledAt: Date;
+}
+
+/**
+ * Load the persisted per-URL crawl state for a store
+ * @param store - Store the URLs belong to
+ * @returns Map keyed by URL
+ */
+export async function loadCrawlState(store: {
+  name: string;
+  domain: string;
+}): Promise<Map<string, CrawlStateEntry>> {
+  const { scrapedStoreId } = await getScrapedStoreIds(store);
+  const rows = await db
+    .select({
+      url: scrapedUrlState.url,
+      lastmod: scrapedUrlState.lastmod,
+      lastCrawledAt: scrapedUrlState.lastCrawledAt,
+    })
+    .from(scrapedUrlState)
+    .where(eq(scrapedUrlState.scrapedStoreId, scrapedStoreId));
+
+  const out = new Map<string, CrawlStateEntry>();
+  for (const r of rows) {
+    out.set(r.url, { lastmod: r.lastmod, lastCrawledAt: r.lastCrawledAt });
   }
+  return out;
+}
+
+/**
+ * Record that URLs were crawled now (upsert on store + URL)
+ * @param store - Store the URLs belong to
+ * @param entries - Crawled URLs with the sitemap lastmod seen this run
+ */
+export async function markUrlsCrawled(
+  store: { name: string; domain: string },
+  entries: Array<{ url: string; lastmod?: string | null }>,
+) {
+  if (entries.length === 0) return;
+  const { scrapedStoreId } = await getScrapedStoreIds(store);
+  const now = new Date();
+
+  // samma URL två gånger i en INSERT ... ON CONFLICT är inte tillåtet
+  const byUrl = new Map<string, Date | null>();
+  for (const e of entries) {
+    const ts = e.lastmod ? Date.parse(e.lastmod) : NaN;
+    byUrl.set(e.url, Number.isFinite(ts) ? new Date(ts) : null);
+  }
+
+  await db
+    .insert(scrapedUrlState)
+    .values(
+      Array.from(byUrl, ([url, lastmod]) => ({
+        scrapedStoreId,
+        url,
+        lastmod,
+        lastCrawledAt: now,
+      })),
+    )
+    .onConflictDoUpdate({
+      target: [scrapedUrlState.scrapedStoreId, scrapedUrlState.url],
+      set: {
+        lastmod: sql`coalesce(excluded.lastmod, ${scrapedUrlState.lastmod})`,
+        lastCrawledAt: now,
+        updatedAt: now,
+      },
+    });
+}
+
+/** Why a listing was marked delisted */
+export type DelistReason = "sitemap" | "not_found" | "redirect";
+
+/** Outcome of comparing a full discovery against stored listings */
+export interface DelistingStats {
+  /** Listings not delisted before this run */
+  live: number;
+  /** Listings absent from discovery this run */
+  missing: number;
+  /** Newly delisted (absent for afterRuns consecutive full runs) */
+  delisted: number;
+  /** Sitemap-delisted listings that reappeared */
+  revived: number;
+}
+
+const UPDATE_CHUNK = 1000;
+
+/**
+ * Compare the complete set of discovered PDP URLs from a full run against the
+ * store's listings. Absent listings get missed_runs + 1 and are marked
+ * delisted (reason "sitemap") once they have been absent for `afterRuns`
+ * consecutive full runs; present listings reset the counter and are revived
+ * if the sitemap was what delisted them.
+ * @param store - Store the URLs belong to
+ * @param discoveredUrls - Normalized product URLs found by discovery
+ * @param options.afterRuns - Consecutive misses before delisting
+ * @param options.minCoverage - Minimum share (0–1) of live listings that must
+ *   be present; below it the discovery is assumed broken and nothing changes
+ * @returns Counts, or null when skipped by the coverage guard
+ */
+export async function reconcileDiscoveredListings(
+  store: { name: string; domain: string },
+  discoveredUrls: string[],
+  options: { afterRuns: number; minCoverage: number },
+): Promise<DelistingStats | null> {
+  const { scrapedStoreId } = await getScrapedStoreIds(store);
+  const rows = await db
+    .select({
+      id: scrapedProductListings.id,
+      productUrl: scrapedProductListings.productUrl,
+      missedRuns: scrapedProductListings.missedRuns,
+      delistedAt: scrapedProductListings.delistedAt,
+      delistedReason: scrapedProductListings.delistedReason,
+    })
+    .from(scrapedProductListings)
+    .where(eq(scrapedProductListings.scrapedStoreId, scrapedStoreId));
+
+  const present = new Set(discoveredUrls);
+  const stats: DelistingStats = {
+    live: 0,
+    missing: 0,
+    delisted: 0,
+    revived: 0,
+  };
+  const seenIds: number[] = [];
+  const missingIds: number[] = [];
+  let liveSeen = 0;
+  for (const r of rows) {
+    const seen = !!r.productUrl && present.has(r.productUrl);
+    if (!r.delistedAt) {
+      stats.live++;
+      if (seen) liveSeen++;
+    }
+    if (seen) {
+      const revive = !!r.delistedAt && r.delistedReason === "sitemap";
+      if (revive) stats.revived++;
+      if (revive || r.missedRuns > 0) seenIds.push(r.id);
+    } else {
+      stats.missing++;
+      missingIds.push(r.id);
+      if (!r.delistedAt && r.missedRuns + 1 >= options.afterRuns) {
+        stats.delisted++;
+      }
+    }
+  }
+
+  // en trasig/halv sitemap får inte avlista halva sortimentet
+  if (stats.live > 0 && liveSeen / stats.live < options.minCoverage) {
+    return null;
+  }
+
+  // samma format som drizzle skriver timestamp-kolumner med
+  const now = new Date().toISOString();
+  const reachesLimit = sql`${scrapedProductListings.delistedAt} is null and ${scrapedProductListings.missedRuns} + 1 >= ${options.afterRuns}`;
+  await db.transaction(async (tx) => {
+    for (let i = 0; i < seenIds.length; i += UPDATE_CHUNK) {
+      await tx
+        .update(scrapedProductListings)
+        .set({
+          missedRuns: 0,
+          delistedAt: sql`case when ${scrapedProductListings.delistedReason} = 'sitemap' then null else ${scrapedProductListings.delistedAt} end`,
+          delistedReason: sql`case when ${scrapedProductListings.delistedReason} = 'sitemap' then null else ${scrapedProductListings.delistedReason} end`,
+        })
+        .where(
+          inArray(
+            scrapedProductListings.id,
+            seenIds.slice(i, i + UPDATE_CHUNK),
+          ),
+        );
+    }
+    for (let i = 0; i < missingIds.length; i += UPDATE_CHUNK) {
+      await tx
+        .update(scrapedProductListings)
+        .set({
+          missedRuns: sql`${scrapedProductListings.missedRuns} + 1`,
+          delistedAt: sql`case when ${reachesLimit} then ${now} else ${scrapedProductListings.delistedAt} end`,
+          delistedReason: sql`case when ${reachesLimit} then 'sitemap' else ${scrapedProductListings.delistedReason} end`,
+        })
+        .where(
+          inArray(
+            scrapedProductListings.id,
+            missingIds.slice(i, i + UPDATE_CHUNK),
+          ),
+        );
+    }
+  });
+  return stats;
+}
+
+/**
+ * Mark listings whose PDP is gone (404/410, or redirected to a non-product
+ * page) as delisted right away. Already delisted rows keep their original
+ * timestamp and reason; the next successful write revives them.
+ * @param store - Store the URLs belong to
+ * @param gone - Normalized product URLs with the reason
+ * @returns Number of listings newly delisted
+ */
+export async function markListingsGone(
+  store: { name: string; domain: string },
+  gone: Array<{ url: string; reason: Exclude<DelistReason, "sitemap"> }>,
+): Promise<number> {
+  if (gone.length === 0) return 0;
+  const { scrapedStoreId } = await getScrapedStoreIds(store);
+  const now = new Date();
+  let delisted = 0;
+
+  for (const reason of ["not_found", "redirect"] as const) {
+    const urls = [
+      ...new Set(gone.filter((g) => g.reason === reason).map((g) => g.url)),
+    ];
+    for (let i = 0; i < urls.length; i += UPDATE_CHUNK) {
+      const rows = await db
+        .update(scrapedProductListings)
+        .set({ delistedAt: now, delistedReason: reason })
+        .where(
+          and(
+            eq(scrapedProductListings.scrapedStoreId, scrapedStoreId),
+            inArray(
+              scrapedProductListings.productUrl,
+              urls.slice(i, i + UPDATE_CHUNK),
+            ),
+            isNull(scrapedProductListings.delistedAt),
+          ),
+        )
+        .returning({ id: scrapedProductListings.id });
+      delisted += rows.length;
+    }
+  }
+  return delisted;
+}
+
+/** An extracted product that failed validation */
+export interface ListingReject {
+  /** Normalized product URL */
+  url: string;
+  /** ValidationError.field, e.g. "price" */
+  field: string | null;
+  message: string;
+  /** The extracted product as it was rejected */
+  rawData?: unknown;
+}
+
+/**
+ * Store products that failed validation in scraped_listing_rejects instead
+ * of writing them as listings.
+ * @param store - Store the products were extracted from
+ * @param rejects - Failed products with the failing field and message
+ * @param scrapeRunId - Run that extracted them
+ * @returns Number of reject rows written
+ */
+export async function recordListingRejects(
+  store: { name: string; domain: string },
+  rejects: ListingReject[],
+  scrapeRunId?: number | null,
+): Promise<number> {
+  if (rejects.length === 0) return 0;
+  const { scrapedStoreId } = await getScrapedStoreIds(store);
+  const now = new Date();
+  const rows = rejects.map(
+    (r): typeof scrapedListingRejects.$inferInsert => ({
+      scrapedStoreId,
+      scrapeRunId: scrapeRunId ?? null,
+      productUrl: r.url,
+      field: r.field,
+      message: r.message,
+      rawData: r.rawData ?? null,
+      rejectedAt: now,
+    }),
+  );
+  for (let i = 0; i < rows.length; i += UPDATE_CHUNK) {
+    const chunk = rows.slice(i, i + UPDATE_CHUNK);
+    await withRetry(
+      () => db.insert(scrapedListingRejects).values(chunk),
+      DB_RETRY_OPTIONS,
+    );
+  }
+  return rows.length;
+}
+
+/** Final numbers for a scrape_runs row (Snapshot plus per-phase details) */
+export interface ScrapeRunSummary extends Snapshot {
+  status: "completed" | "failed";
+  discovered: number;
+  planned: number;
+  fails: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  writeFailed: number;
+  priceChanges: number;
+  stockChanges: number;
+  priceFlags: number;
+  viaFastpath: number;
+  viaBrowser: number;
+  phaseDurationsMs: Record<string, number>;
+  errorBreakdown: Record<string, number>;
+  error?: string | null;
+}
+
+/**
+ * Open a scrape_runs row for a site run (status "running")
+ * @param run - Store, run/job IDs, mode and start time
+ * @returns ID of the new row
+ */
+export async function startScrapeRun(run: {
+  store: { name: string; domain: string };
+  runId: string;
+  jobId?: string | null;
+  parentRunId?: number | null;
+  runMode: string;
+  startedAt: Date;
+}): Promise<number> {
+  const { scrapedStoreId } = await getScrapedStoreIds(run.store);
+  const [row] = await db
+    .insert(scrapeRuns)
+    .values({
+      runId: run.runId,
+      jobId: run.jobId ?? null,
+      parentRunId: run.parentRunId ?? null,
+      scrapedStoreId,
+      runMode: run.runMode,
+      startedAt: run.startedAt,
+    })
+    .returning({ id: scrapeRuns.id });
+  return row.id;
+}
+
+/**
+ * Close a scrape_runs row with the run's outcome
+ * @param id - Row ID from startScrapeRun
+ * @param summary - Counts, durations and error breakdown
+ */
+export async function finishScrapeRun(
+  id: number,
+  summary: ScrapeRunSummary,
+): Promise<void> {
+  await db
+    .update(scrapeRuns)
+    .set({
+      status: summary.status,
+      finishedAt: new Date(summary.finishedAt),
+      discovered: summary.discovered,
+      planned: summary.planned,
+      visited: summary.visited,
+      ok: summary.ok,
+      fails: summary.fails,
+      wrote: summary.wrote,
+      inserted: summary.inserted,
+      updated: summary.updated,
+      skipped: summary.skipped,
+      writeFailed: summary.writeFailed,
+      priceChanges: summary.priceChanges,
+      stockChanges: summary.stockChanges,
+      priceFlags: summary.priceFlags,
+      viaFastpath: summary.viaFastpath,
+      viaBrowser: summary.viaBrowser,
+      phaseDurationsMs: summary.phaseDurationsMs,
+      errorBreakdown: summary.errorBreakdown,
+      error: summary.error ?? null,
+      updatedAt: new Date(),
+    })
+    .where(eq(scrapeRuns.id, id));
 }
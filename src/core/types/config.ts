@@ -2,7 +2,7 @@
  * Configuration-related types
  */
 
-import type { Page } from "playwright";
+import type { BrowserContext, Page } from "playwright";
 
 /** Rampsteg för pacing */
 export interface RampStep {
@@ -17,6 +17,10 @@ export interface PacingConfig {
   pdpConcurrency?: number;
   pdpTimeoutMs?: number;
   navWaitPdp?: "domcontentloaded" | "load" | "networkidle";
+  /** Vänta dessutom på detta efter goto (timeout ignoreras) – för sidor som hydreras klientside */
+  navSettlePdp?: "load" | "networkidle";
+  /** Max väntan på navSettlePdp (default pdpTimeoutMs) */
+  navSettleTimeoutMs?: number;
   gotoMinSpacingMs?: number;
   minDelayMs?: number;
   maxDelayMs?: number;
@@ -32,6 +36,54 @@ export interface PacingConfig {
 export interface DiscoveryConfig {
   sitemapUrl?: string | string[]; // ← tillåt array
   productUrlRegex?: RegExp;
+  /** Extra sitemap-källor som prövas från andra discovery-försöket (t.ex. alternativ API-host) */
+  fallbackSitemapUrls?: string[];
+}
+
+/** Extraktionsstrategi per sajt */
+export interface ExtractionConfig {
+  /**
+   * "browser" (default): Playwright för varje PDP.
+   * "fastpath": HTTP-hämtning + JSON-LD + fastpathAdjust, browser bara vid behov.
+   */
+  mode?: "browser" | "fastpath";
+  /** Tillåt browser-fallback när fastpath saknar obligatoriska fält (annars env ALLOW_BROWSER_FALLBACK) */
+  browserFallback?: boolean;
+  /** Fält som måste vara ifyllda för att fastpath ska räcka (default: name, price) */
+  requiredFields?: Array<keyof Product>;
+}
+
+/** Körstrategi per sajt */
+export interface ExecutionConfig {
+  /**
+   * "single" (default): en runSite i processen.
+   * "sharded": frontier delas i chunkar som körs isolerat (egen process/worker per shard).
+   */
+  strategy?: "single" | "sharded";
+  /** URL:er per shard (default env SHARD_CHUNK_SIZE eller 1000) */
+  chunkSize?: number;
+  /** "process" (child_process.fork, default) eller "worker" (worker_threads) */
+  isolation?: "process" | "worker";
+  /** Antal shards som körs samtidigt; sajtens rate-budget delas mellan dem (default 1) */
+  parallelShards?: number;
+}
+
+/** Körordning när flera sajter körs i samma import */
+export interface SchedulingConfig {
+  /** Högre prioritet körs först (default 0) */
+  priority?: number;
+  /** Efterföljande sajter startar tidigast så här länge efter att denna startat (ms) */
+  headstartMs?: number;
+}
+
+/** Svaret från runnerns navigering, skickas med till adaptern */
+export interface PageResponse {
+  /** HTTP-status (0 om navigeringen inte gav något svar, t.ex. hash-ändring) */
+  status: number;
+  /** Response-headers (gemener) */
+  headers: Record<string, string>;
+  /** Slutlig URL efter redirects */
+  finalUrl: string;
 }
 
 /** SiteAdapter – kontrakt för alla sajter */
@@ -47,9 +99,23 @@ export interface SiteAdapter {
 
   pacing?: PacingConfig;
 
-  /** Hantera cookie/consent innan extraktion */
+  /** Hantera cookie/consent (körs av runnern på första sidan i en context, sparas sedan via storageState) */
   consent?: (page: Page) => Promise<void>;
 
+  /**
+   * (valfritt) Körs en gång när sajtens BrowserContext skapas –
+   * request-blockering (context.route) och liknande.
+   */
+  setupContext?: (context: BrowserContext) => Promise<void>;
+
+  /**
+   * (valfritt) Körs före varje navigering i runnern – för response-sniffning
+   * per sida eller att avböja URL:en (kasta ExtractionError). Returnerar den
+   * en URL laddas den i stället (t.ex. normaliserad).
+   * Sidor återanvänds, så lyssnare ska bara registreras en gång per sida.
+   */
+  beforeNavigate?: (page: Page, url: string) => Promise<string | void>;
+
   /** Fallback-selektorer när JSON-LD inte finns/är ofullständig */
   fallbackSelectors?: {
     title?: string[];
@@ -62,14 +128,28 @@ export interface SiteAdapter {
   /** Postprocess av fastpath-resultat (t.ex. sätt valuta) */
   fastpathAdjust?: (html: string, p: Product) => Product;
 
+  /** Fastpath/browser-strategi för PDP:er */
+  extraction?: ExtractionConfig;
+
+  /** Körstrategi (t.ex. sharding av stora sajter) */
+  execution?: ExecutionConfig;
+
+  /** Prioritet/headstart gentemot andra sajter i samma import */
+  scheduling?: SchedulingConfig;
+
   /** Standardvärden per sajt */
   defaults?: { currency?: string };
 
   /**
    * (valfritt) Site-specifik PDP-extraktion.
    * Om den finns används den istället för standardrutinen i runnern.
+   * Sidan är redan laddad (och consent körd) – adaptern ska inte navigera själv.
    */
-  customExtract?: (page: Page, url: string) => Promise<Product>;
+  customExtract?: (
+    page: Page,
+    url: string,
+    response: PageResponse,
+  ) => Promise<Product>;
 }
 
 // Re-export Product type for convenience
@@ -30,7 +30,7 @@ export interface SitemapEntry {
   lastmod?: string;
 }
 
-/** Snapshot-metadata (lagras ihop med products.json om man vill) */
+/** Snapshot-metadata för en körning (scrape_runs, eller ihop med products.json) */
 export interface Snapshot {
   startedAt: string; // ISO
   finishedAt: string; // ISO
@@ -5,5 +5,7 @@
 export * from "./array";
 export * from "./date";
 export * from "./logger";
+export * from "./price";
 export * from "./retry";
+export * from "./semaphore";
 export * from "./url";
@@ -1,13 +1,34 @@
 import pino from 'pino';
 
+// stdout can be reserved for listing output (stdout sink); logs then go to stderr
+let logFd: 1 | 2 = 1;
+
 // Set log level via env LOG_LEVEL (default: info)
-const logger = pino({
-  level: process.env.LOG_LEVEL || 'info',
-  transport: process.env.NODE_ENV === 'production' ? undefined : {
-    target: 'pino-pretty',
-    options: { colorize: true }
-  }
-});
+const createLogger = () =>
+  process.env.NODE_ENV === 'production'
+    ? pino({ level: process.env.LOG_LEVEL || 'info' }, pino.destination(logFd))
+    : pino({
+        level: process.env.LOG_LEVEL || 'info',
+        transport: {
+          target: 'pino-pretty',
+          options: { colorize: true, destination: logFd }
+        }
+      });
+
+let logger = createLogger();
+
+/**
+ * Sends pino and console.log/info/debug to stderr so that stdout only
+ * carries data (the stdout sink's NDJSON). Safe to call more than once.
+ */
+export function routeLogsToStderr(): void {
+  if (logFd === 2) return;
+  logFd = 2;
+  logger = createLogger();
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
 
 export enum LogLevel {
   INFO = 'info',
@@ -60,10 +81,15 @@ export class Logger {
   static errorOccurred(site: string, url: string, error: Error): void {
     this.error(`PDP extraction failed: ${url}`, error, { site, url });
   }
-  static cooldownActivated(site: string, consecutiveErrors: number): void {
+  static cooldownActivated(site: string, state: {
+    direction: 'tightened' | 'relaxed';
+    errorRate: number;
+    targetRps: number;
+    concurrency: number;
+  }): void {
     this.warn(
-      `Cooldown activated due to ${consecutiveErrors} consecutive errors`,
-      { site, consecutiveErrors },
+      `Cooldown ${state.direction}: error rate ${(state.errorRate * 100).toFixed(1)}% -> targetRps=${state.targetRps.toFixed(2)} concurrency=${state.concurrency}`,
+      { site, ...state },
     );
   }
 }
@@ -0,0 +1,29 @@
+/**
+ * Price helpers (exact minor units, discounts)
+ */
+
+/**
+ * Converts a price in major units (e.g. 49.9 kr) to minor units (4990 öre)
+ * @param price - Price in major units
+ * @returns Whole minor units, or null for missing/non-positive prices
+ */
+export function toMinorUnits(price: number | null | undefined): number | null {
+  if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) {
+    return null;
+  }
+  return Math.round(price * 100);
+}
+
+/**
+ * Discount of the current price relative to the original price
+ * @param priceMinor - Current price in minor units
+ * @param originalMinor - Original/list price in minor units
+ * @returns Percent off with two decimals (e.g. 23.08), or null when there is no discount
+ */
+export function discountPercent(
+  priceMinor: number | null,
+  originalMinor: number | null,
+): number | null {
+  if (!priceMinor || !originalMinor || originalMinor <= priceMinor) return null;
+  return Math.round((1 - priceMinor / originalMinor) * 10000) / 100;
+}
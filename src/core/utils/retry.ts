@@ -117,12 +117,22 @@ export const DB_RETRY_OPTIONS: RetryOptions = {
   backoffMultiplier: 2,
   jitterMs: 50,
   retryCondition: (error) => {
-    // Retry on database locks and temporary failures
+    // Postgres: serialization failure, deadlock, too many connections, shutdown
+    const code = String((error as { code?: unknown }).code ?? "");
+    if (["40001", "40P01", "53300", "57P01", "57P03"].includes(code)) {
+      return true;
+    }
+    if (code.startsWith("08")) return true; // connection exception
+
+    // Retry on database locks, dropped connections and temporary failures
     const message = error.message.toLowerCase();
     return (
       message.includes("locked") ||
       message.includes("busy") ||
-      message.includes("temporary")
+      message.includes("temporary") ||
+      message.includes("connection terminated") ||
+      message.includes("econnreset") ||
+      message.includes("etimedout")
     );
   },
 };
@@ -0,0 +1,77 @@
+/**
+ * Counting semaphore with an adjustable limit
+ */
+
+export class Semaphore {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(private max: number) {
+    this.max = Math.max(1, Math.floor(max));
+  }
+
+  /** Current number of permits */
+  get limit(): number {
+    return this.max;
+  }
+
+  /** Number of permits currently held */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /** Number of callers waiting for a permit */
+  get pendingCount(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Changes the number of permits. Lowering it never interrupts holders;
+   * new acquirers simply wait until enough permits have been released.
+   * @param n - New limit (min 1)
+   */
+  setLimit(n: number): void {
+    this.max = Math.max(1, Math.floor(n));
+    this.drain();
+  }
+
+  /**
+   * Waits for a permit
+   * @returns Release function (safe to call more than once)
+   */
+  async acquire(): Promise<() => void> {
+    if (this.active < this.max && this.waiters.length === 0) {
+      this.active++;
+    } else {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+
+  /**
+   * Runs an operation while holding a permit
+   * @param operation - Operation to run
+   * @returns Result of the operation
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  private drain() {
+    while (this.active < this.max && this.waiters.length > 0) {
+      this.active++;
+      this.waiters.shift()!();
+    }
+  }
+}
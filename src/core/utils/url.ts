@@ -14,6 +14,23 @@ export const normalizeUrlKey = (raw: string): string => {
   return u.toString();
 };
 
+/**
+ * Canonical product URL used as the listing key (store + URL)
+ * @param raw - Product URL as extracted
+ * @param normalize - The adapter's `normalizeUrl`, if any (default: drop query/hash)
+ * @returns Normalized URL, or the raw URL if it cannot be parsed
+ */
+export function canonicalProductUrl(
+  raw: string,
+  normalize?: (raw: string) => string,
+): string {
+  try {
+    return (normalize ?? normalizeUrlKey)(raw);
+  } catch {
+    return raw;
+  }
+}
+
 /**
  * Resolves a relative or absolute location URL against a base URL
  * @param baseUrl - Base URL to resolve against
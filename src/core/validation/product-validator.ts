@@ -127,6 +127,54 @@ export function validateProduct(product: unknown): Product {
   };
 }
 
+/** A product that passed the business rules: it has a name and a price */
+export type ValidProduct = Product & { name: string; price: number };
+
+const bareHost = (host: string) => host.toLowerCase().replace(/^www\./, "");
+
+/**
+ * Validates an extracted product before it is saved as a listing. On top of
+ * the type checks in validateProduct: name required, price > 0 and the URL
+ * must be http(s) on the site's host (subdomains allowed).
+ * @param product - Product from an adapter's extraction
+ * @param siteHost - The site's host, e.g. "www.apotea.se"
+ * @returns The validated product with name trimmed
+ * @throws ValidationError naming the failing field
+ */
+export function validateScrapedProduct(
+  product: unknown,
+  siteHost: string,
+): ValidProduct {
+  const p = validateProduct(product);
+
+  const name = p.name?.trim();
+  if (!name) {
+    throw new ValidationError("Product name is required", "name");
+  }
+
+  if (p.price === null || p.price <= 0) {
+    throw new ValidationError(
+      `Product price must be greater than 0 (got ${p.price})`,
+      "price",
+    );
+  }
+
+  const url = sanitizeUrl(p.url);
+  if (!url) {
+    throw new ValidationError("Product URL must be http(s)", "url");
+  }
+  const host = bareHost(new URL(url).hostname);
+  const expected = bareHost(siteHost);
+  if (host !== expected && !host.endsWith(`.${expected}`)) {
+    throw new ValidationError(
+      `Product URL host ${host} is not on ${expected}`,
+      "url",
+    );
+  }
+
+  return { ...p, name, price: p.price };
+}
+
 /**
  * Validates a product record
  * @param record - The product record to validate
@@ -0,0 +1,151 @@
+/**
+ * One-off migration: merge duplicate scraped_product_listings
+ *
+ * Before listings were upserted, every run appended a new row per product.
+ * This keeps one row per (store, normalized product URL) – the most recently
+ * written one, with created_at set to the earliest sighting – rewrites
+ * product URLs (listings and price history) to the adapter's normalized form.
+ * 0002_unique_listing_url merges exact (store, URL) duplicates itself; this
+ * script catches the ones that only match after normalization.
+ *
+ * Usage: npm run dedupe-listings [-- --dry-run]
+ */
+
+import "dotenv/config";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "./core/drizzleClient";
+import { Logger } from "./core/utils/logger";
+import { canonicalProductUrl } from "./core/utils/url";
+import {
+  scrapedPriceHistory,
+  scrapedProductListings,
+  scrapedStores,
+} from "./schema";
+import { registry } from "./sites/registry";
+
+const DELETE_CHUNK = 1000;
+
+interface ListingRow {
+  id: number;
+  productUrl: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+const lastWritten = (r: ListingRow) =>
+  (r.updatedAt ?? r.createdAt ?? new Date(0)).getTime();
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const storesRows = await db.select().from(scrapedStores);
+  let totalDeleted = 0;
+  let totalRenamed = 0;
+
+  for (const store of storesRows) {
+    // scraped_stores.name är sajtens nyckel (se runnerns store-objekt)
+    const normalize = registry.get(store.name)?.normalizeUrl;
+    if (!normalize) {
+      Logger.warn(
+        `No adapter for store "${store.name}" – falling back to query/hash stripping`,
+      );
+    }
+
+    const rows: ListingRow[] = await db
+      .select({
+        id: scrapedProductListings.id,
+        productUrl: scrapedProductListings.productUrl,
+        createdAt: scrapedProductListings.createdAt,
+        updatedAt: scrapedProductListings.updatedAt,
+      })
+      .from(scrapedProductListings)
+      .where(eq(scrapedProductListings.scrapedStoreId, store.id));
+
+    const groups = new Map<string, ListingRow[]>();
+    for (const r of rows) {
+      if (!r.productUrl) continue;
+      const key = canonicalProductUrl(r.productUrl, normalize);
+      const group = groups.get(key) ?? [];
+      group.push(r);
+      groups.set(key, group);
+    }
+
+    const losers: number[] = [];
+    const survivors: Array<{ id: number; url: string; firstSeen: Date | null }> =
+      [];
+    for (const [url, group] of groups) {
+      group.sort((a, b) => lastWritten(b) - lastWritten(a) || b.id - a.id);
+      const [keep, ...rest] = group;
+      const firstSeen = group
+        .map((r) => r.createdAt)
+        .filter((d): d is Date => d !== null)
+        .sort((a, b) => a.getTime() - b.getTime())[0];
+      losers.push(...rest.map((r) => r.id));
+      if (
+        rest.length > 0 ||
+        keep.productUrl !== url ||
+        (firstSeen && firstSeen.getTime() !== keep.createdAt?.getTime())
+      ) {
+        survivors.push({ id: keep.id, url, firstSeen: firstSeen ?? null });
+      }
+    }
+
+    const historyUrls = await db
+      .selectDistinct({ productUrl: scrapedPriceHistory.productUrl })
+      .from(scrapedPriceHistory)
+      .where(eq(scrapedPriceHistory.scrapedStoreId, store.id));
+    const historyRenames = historyUrls
+      .map((h) => ({
+        from: h.productUrl,
+        to: canonicalProductUrl(h.productUrl, normalize),
+      }))
+      .filter((h) => h.from !== h.to);
+
+    Logger.info(
+      `${store.name}: listings=${rows.length} unique=${groups.size} delete=${losers.length} rewrite=${survivors.length} historyUrls=${historyRenames.length}`,
+    );
+    totalDeleted += losers.length;
+    totalRenamed += survivors.length;
+    if (dryRun) continue;
+
+    await db.transaction(async (tx) => {
+      // först bort med dubbletterna så att omskrivna URL:er inte krockar
+      for (let i = 0; i < losers.length; i += DELETE_CHUNK) {
+        await tx
+          .delete(scrapedProductListings)
+          .where(
+            inArray(scrapedProductListings.id, losers.slice(i, i + DELETE_CHUNK)),
+          );
+      }
+      for (const s of survivors) {
+        await tx
+          .update(scrapedProductListings)
+          .set({
+            productUrl: s.url,
+            ...(s.firstSeen ? { createdAt: s.firstSeen } : {}),
+          })
+          .where(eq(scrapedProductListings.id, s.id));
+      }
+      for (const h of historyRenames) {
+        await tx
+          .update(scrapedPriceHistory)
+          .set({ productUrl: h.to })
+          .where(
+            and(
+              eq(scrapedPriceHistory.scrapedStoreId, store.id),
+              eq(scrapedPriceHistory.productUrl, h.from),
+            ),
+          );
+      }
+    });
+  }
+
+  Logger.info(
+    `${dryRun ? "[dry-run] " : ""}Done: deleted=${totalDeleted} rewritten=${totalRenamed}`,
+  );
+  process.exit(0);
+}
+
+main().catch((e) => {
+  Logger.error(`Dedupe failed: ${e?.message || e}`);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * One-off backfill: attach existing listings to the scraped_products catalogue
+ *
+ * New writes link listings by GTIN as they are saved; this catches up rows
+ * written before the catalogue existed. Safe to re-run.
+ *
+ * Usage: npm run link-products
+ */
+
+import "dotenv/config";
+import { and, asc, eq, gt, isNotNull, isNull } from "drizzle-orm";
+import { upsertCatalogueProducts } from "./core/catalogue";
+import { db } from "./core/drizzleClient";
+import { toGtin14 } from "./core/product/gtin";
+import { Logger } from "./core/utils/logger";
+import { scrapedProductListings } from "./schema";
+
+const PAGE_SIZE = 1000;
+
+async function main() {
+  let lastId = 0;
+  let linked = 0;
+  let invalid = 0;
+
+  for (;;) {
+    const page = await db
+      .select({
+        id: scrapedProductListings.id,
+        ean: scrapedProductListings.ean,
+        name: scrapedProductListings.productName,
+        brand: scrapedProductListings.brand,
+        imageUrl: scrapedProductListings.imageUrl,
+      })
+      .from(scrapedProductListings)
+      .where(
+        and(
+          gt(scrapedProductListings.id, lastId),
+          isNull(scrapedProductListings.productId),
+          isNotNull(scrapedProductListings.ean),
+        ),
+      )
+      .orderBy(asc(scrapedProductListings.id))
+      .limit(PAGE_SIZE);
+    if (page.length === 0) break;
+    lastId = page[page.length - 1].id;
+
+    const withGtin = page
+      .map((r) => ({ ...r, gtin14: toGtin14(r.ean) }))
+      .filter((r): r is typeof r & { gtin14: string } => r.gtin14 !== null);
+    invalid += page.length - withGtin.length;
+
+    await db.transaction(async (tx) => {
+      const ids = await upsertCatalogueProducts(tx, withGtin);
+      for (const r of withGtin) {
+        await tx
+          .update(scrapedProductListings)
+          .set({ productId: ids.get(r.gtin14) })
+          .where(eq(scrapedProductListings.id, r.id));
+      }
+    });
+    linked += withGtin.length;
+    Logger.info(`Linked ${linked} listings so far (last id ${lastId})`);
+  }
+
+  Logger.info(`Done: linked=${linked} invalidGtin=${invalid}`);
+  process.exit(0);
+}
+
+main().catch((e) => {
+  Logger.error(`Linking failed: ${e?.message || e}`);
+  process.exit(1);
+});
@@ -0,0 +1,128 @@
+/**
+ * Fuzzy matching CLI for listings without a usable GTIN
+ *
+ * Usage:
+ *   npm run match-listings -- run [--store <name>] [--limit N] [--dry-run]
+ *   npm run match-listings -- pending [--limit N]   Show the review queue
+ *   npm run match-listings -- accept <matchId>      Link the listing
+ *   npm run match-listings -- reject <matchId>      Never suggest this pair again
+ *   npm run match-listings -- eval [--max-missed N] Score the offline fixture pairs
+ *
+ * `eval` exits non-zero on any false link or when more than N (default 0)
+ * same-product pairs are missed, so it can run as a check.
+ *
+ * Thresholds: MATCH_LINK_THRESHOLD (default 85) and MATCH_REVIEW_THRESHOLD
+ * (default 60), in percent.
+ */
+
+import "dotenv/config";
+import { eq } from "drizzle-orm";
+import { db } from "./core/drizzleClient";
+import {
+  evaluateMatcher,
+  listPendingMatches,
+  matchUnlinkedListings,
+  resolveMatch,
+} from "./core/matching/index";
+import { Logger } from "./core/utils/logger";
+import { scrapedStores } from "./schema";
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const command = argv[0] ?? "run";
+  const getArg = (flag: string) => {
+    const i = argv.lastIndexOf(flag);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+  const limit = getArg("--limit") ? Number(getArg("--limit")) : undefined;
+
+  switch (command) {
+    case "run": {
+      let scrapedStoreId: number | undefined;
+      const storeName = getArg("--store");
+      if (storeName) {
+        const [store] = await db
+          .select({ id: scrapedStores.id })
+          .from(scrapedStores)
+          .where(eq(scrapedStores.name, storeName));
+        if (!store) {
+          Logger.error(`Unknown store "${storeName}"`);
+          process.exit(1);
+        }
+        scrapedStoreId = store.id;
+      }
+      const dryRun = argv.includes("--dry-run");
+      const stats = await matchUnlinkedListings({
+        scrapedStoreId,
+        limit,
+        dryRun,
+      });
+      Logger.info(
+        `${dryRun ? "[dry-run] " : ""}Matched: scanned=${stats.scanned} linked=${stats.linked} queued=${stats.queued} unmatched=${stats.unmatched}`,
+      );
+      break;
+    }
+    case "pending": {
+      for (const m of await listPendingMatches(limit)) {
+        console.log(
+          `#${m.id} ${m.confidence.toFixed(2)} [${m.store}] ${m.listingName} → ${m.productName} (${m.gtin14})\n    ${m.reasons.join(" ")}`,
+        );
+      }
+      break;
+    }
+    case "accept":
+    case "reject": {
+      const id = Number(argv[1]);
+      if (!Number.isInteger(id)) {
+        Logger.error(`Usage: ${command} <matchId>`);
+        process.exit(1);
+      }
+      const ok = await resolveMatch(id, command === "accept");
+      if (!ok) {
+        Logger.error(`No pending match #${id}`);
+        process.exit(1);
+      }
+      Logger.info(`Match #${id} ${command}ed`);
+      break;
+    }
+    case "eval": {
+      const maxMissed = Number(getArg("--max-missed") ?? 0);
+      if (!Number.isInteger(maxMissed) || maxMissed < 0) {
+        Logger.error(
+          `--max-missed must be a non-negative integer (got "${getArg("--max-missed")}")`,
+        );
+        process.exit(1);
+      }
+      const result = evaluateMatcher();
+      for (const r of result.results) {
+        console.log(
+          `${r.wrong ? "✗" : "✓"} ${r.fixture.same ? "same" : "diff"} ${r.decision.padEnd(6)} ${r.confidence.toFixed(2)}  ${r.fixture.a.name} | ${r.fixture.b.name}`,
+        );
+      }
+      Logger.info(
+        `Fixtures: ${result.results.length} linked=${result.linked} review=${result.review} falseLinks=${result.falseLinks} missed=${result.missed} precision=${result.precision.toFixed(2)}`,
+      );
+      const failures = [
+        result.falseLinks > 0 && `${result.falseLinks} false link(s)`,
+        result.missed > maxMissed &&
+          `${result.missed} missed pair(s) (max ${maxMissed})`,
+      ].filter(Boolean);
+      if (failures.length > 0) {
+        Logger.error(`❌ Matcher evaluation failed: ${failures.join(", ")}`);
+        process.exit(1);
+      }
+      break;
+    }
+    default:
+      Logger.error(
+        `Unknown command "${command}" (expected run, pending, accept, reject or eval)`,
+      );
+      process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((e) => {
+  Logger.error(`Matching failed: ${e?.message || e}`);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * Migration CLI
+ *
+ * Usage:
+ *   npm run migrate -- up [--to <tag>]   Apply pending migrations
+ *   npm run migrate -- status            List migrations and their state
+ *   npm run migrate -- down [--steps N]  Roll back the last N migrations (default 1)
+ */
+
+import "dotenv/config";
+import {
+  migrateDown,
+  migrateUp,
+  migrationStatus,
+} from "./core/migrations";
+import { Logger } from "./core/utils/logger";
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const command = argv[0] ?? "status";
+  const getArg = (flag: string) => {
+    const i = argv.lastIndexOf(flag);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+
+  switch (command) {
+    case "up": {
+      const applied = await migrateUp({ to: getArg("--to") });
+      Logger.info(
+        applied.length > 0
+          ? `Applied ${applied.length} migration(s): ${applied.join(", ")}`
+          : "Database is up to date",
+      );
+      break;
+    }
+    case "down": {
+      const stepsArg = getArg("--steps");
+      const steps = stepsArg === undefined ? 1 : Number(stepsArg);
+      if (!Number.isInteger(steps) || steps < 1) {
+        Logger.error(`--steps must be an integer >= 1 (got "${stepsArg}")`);
+        process.exit(1);
+      }
+      const reverted = await migrateDown(steps);
+      Logger.info(`Rolled back: ${reverted.join(", ") || "nothing"}`);
+      break;
+    }
+    case "status": {
+      const { migrations, unknown } = await migrationStatus();
+      for (const m of migrations) {
+        const state = m.appliedAt
+          ? `applied ${m.appliedAt.toISOString()}${m.modified ? " (file modified since)" : ""}`
+          : "pending";
+        console.log(
+          `${m.tag.padEnd(40)} ${state}${m.reversible ? "" : " [no down]"}`,
+        );
+      }
+      for (const tag of unknown) {
+        console.log(`${tag.padEnd(40)} applied, unknown to this build`);
+      }
+      break;
+    }
+    default:
+      Logger.error(`Unknown command "${command}" (expected up, status or down)`);
+      process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((e) => {
+  Logger.error(`Migration failed: ${e?.message || e}`);
+  process.exit(1);
+});
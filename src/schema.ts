@@ -4,12 +4,14 @@ import {
   index,
   integer,
   jsonb,
+  numeric,
   pgTable,
   serial,
   text,
   timestamp,
   uniqueIndex,
   varchar,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 
 // ---------------- SCRAPED DATA TABLES (keep separate from main data) ----------------
@@ -56,30 +58,270 @@ export const scrapedStores = pgTable(
   }),
 );
 
+// One row per runSite invocation. A sharded site gets a parent row under the
+// plain run ID with the totals plus one row per shard pointing at it through
+// parent_run_id – per-site sums count only rows where parent_run_id is null.
+export const scrapeRuns = pgTable(
+  "scrape_runs",
+  {
+    id: serial("id").primaryKey(),
+    runId: varchar("run_id", { length: 200 }).notNull(), // checkpoint run ID
+    jobId: varchar("job_id", { length: 200 }), // BullMQ job, null for CLI runs
+    parentRunId: integer("parent_run_id").references(
+      (): AnyPgColumn => scrapeRuns.id,
+    ), // sharded parent run, null for whole-site runs
+    scrapedStoreId: integer("scraped_store_id")
+      .references(() => scrapedStores.id)
+      .notNull(),
+    runMode: varchar("run_mode", { length: 16 }).notNull(),
+    status: varchar("status", { length: 16 }).notNull().default("running"), // running | completed | failed
+    startedAt: timestamp("started_at", { mode: "date" }).notNull(),
+    finishedAt: timestamp("finished_at", { mode: "date" }),
+    discovered: integer("discovered"), // unique URLs found before planning
+    planned: integer("planned"), // URLs in this run's frontier
+    visited: integer("visited"),
+    ok: integer("ok"),
+    fails: integer("fails"),
+    wrote: integer("wrote"),
+    inserted: integer("inserted"),
+    updated: integer("updated"),
+    skipped: integer("skipped"),
+    writeFailed: integer("write_failed"),
+    priceChanges: integer("price_changes"), // rows added to scraped_price_history
+    stockChanges: integer("stock_changes"), // rows added to scraped_stock_transitions
+    priceFlags: integer("price_flags"), // listings whose price was held or flagged
+    viaFastpath: integer("via_fastpath"),
+    viaBrowser: integer("via_browser"),
+    phaseDurationsMs: jsonb("phase_durations_ms"), // { planning, crawl, flush }
+    errorBreakdown: jsonb("error_breakdown"), // { throttled: 3, timeout: 1, ... }
+    error: text("error"),
+    createdAt: timestamp("created_at", { mode: "date" }).default(
+      sql`CURRENT_TIMESTAMP`,
+    ),
+    updatedAt: timestamp("updated_at", { mode: "date" }),
+  },
+  (table) => ({
+    scrapeRunStoreStartedIndex: index("scrapeRunStoreStartedIndex").on(
+      table.scrapedStoreId,
+      table.startedAt,
+    ),
+    scrapeRunRunIdIndex: index("scrapeRunRunIdIndex").on(table.runId),
+    scrapeRunParentIndex: index("scrapeRunParentIndex").on(table.parentRunId),
+  }),
+);
+
+// Canonical product catalogue: one row per GTIN-14, listings from every store
+// point here. Named scraped_* to stay clear of the main app's tables.
+export const scrapedProducts = pgTable(
+  "scraped_products",
+  {
+    id: serial("id").primaryKey(),
+    gtin14: varchar("gtin14", { length: 14 }).notNull(), // zero-padded, check digit verified
+    name: varchar("name", { length: 2000 }), // first name seen
+    brand: varchar("brand", { length: 1000 }),
+    imageUrl: varchar("image_url", { length: 5000 }),
+    createdAt: timestamp("created_at", { mode: "date" }).default(
+      sql`CURRENT_TIMESTAMP`,
+    ),
+    updatedAt: timestamp("updated_at", { mode: "date" }),
+  },
+  (table) => ({
+    uniqueProductGtin: uniqueIndex("uniqueScrapedProductGtin14").on(
+      table.gtin14,
+    ),
+  }),
+);
+
 export const scrapedProductListings = pgTable(
   "scraped_product_listings",
   {
     id: serial("id").primaryKey(),
     productName: varchar("product_name", { length: 2000 }).notNull(),
     ean: varchar("ean", { length: 100 }), // NEW: for EAN-based lookups
-    price: integer("price"),
+    price: integer("price"), // whole kronor (legacy, rounded) – use priceMinor
+    priceMinor: integer("price_minor"), // exact, in öre/cents
+    originalPriceMinor: integer("original_price_minor"),
+    discountPercent: numeric("discount_percent", {
+      precision: 5,
+      scale: 2,
+      mode: "number",
+    }), // null when not discounted or the price is flagged
+    suspectPriceMinor: integer("suspect_price_minor"), // unconfirmed price, held until the next crawl repeats it
+    priceFlag: varchar("price_flag", { length: 16 }), // jump | original; null when the price is trusted
+    brand: varchar("brand", { length: 1000 }),
     currency: varchar("currency", { length: 16 }),
-    inStock: boolean("in_stock").default(false),
+    inStock: boolean("in_stock"), // null = extraction could not tell
     productUrl: varchar("product_url", { length: 5000 }),
     imageUrl: varchar("image_url", { length: 5000 }),
     scrapedStoreId: integer("scraped_store_id")
       .references(() => scrapedStores.id)
       .notNull(),
     matchedStoreId: integer("matched_store_id").references(() => stores.id), // nullable FK to stores
+    scrapeRunId: integer("scrape_run_id").references(() => scrapeRuns.id), // run that wrote the row
+    productId: integer("product_id").references(() => scrapedProducts.id), // catalogue product (by GTIN)
     rawData: jsonb("raw_data").notNull(), // full scraped data for flexibility
+    missedRuns: integer("missed_runs").notNull().default(0), // consecutive full runs absent from discovery
+    delistedAt: timestamp("delisted_at", { mode: "date" }), // null while the product is live
+    delistedReason: varchar("delisted_reason", { length: 16 }), // sitemap | not_found | redirect
     createdAt: timestamp("created_at", { mode: "date" }).default(
       sql`CURRENT_TIMESTAMP`,
-    ),
-    updatedAt: timestamp("updated_at", { mode: "date" }),
+    ), // first seen
+    updatedAt: timestamp("updated_at", { mode: "date" }), // last written by a run
   },
   (table) => ({
     scrapedStoreIdIndex: index("scrapedStoreIdIndex").on(table.scrapedStoreId),
     matchedStoreIdIndex: index("matchedStoreIdIndex").on(table.matchedStoreId),
     urlIndex: index("scrapedProductUrlIndex").on(table.productUrl),
+    // productUrl is normalized via the adapter's normalizeUrl before saving
+    uniqueListingUrl: uniqueIndex("uniqueScrapedListingUrl").on(
+      table.scrapedStoreId,
+      table.productUrl,
+    ),
+    scrapeRunIdIndex: index("scrapedListingRunIdIndex").on(table.scrapeRunId),
+    productIdIndex: index("scrapedListingProductIdIndex").on(table.productId),
+    discountIndex: index("scrapedListingDiscountIndex").on(
+      table.discountPercent,
+    ),
+    delistedAtIndex: index("scrapedListingDelistedAtIndex").on(
+      table.delistedAt,
+    ),
+  }),
+);
+
+// Fuzzy listing → catalogue matches for listings without a usable GTIN.
+// "linked" rows were applied automatically; "pending" rows wait for review.
+export const scrapedProductMatches = pgTable(
+  "scraped_product_matches",
+  {
+    id: serial("id").primaryKey(),
+    listingId: integer("listing_id")
+      .references(() => scrapedProductListings.id, { onDelete: "cascade" })
+      .notNull(),
+    productId: integer("product_id")
+      .references(() => scrapedProducts.id)
+      .notNull(),
+    confidence: numeric("confidence", {
+      precision: 3,
+      scale: 2,
+      mode: "number",
+    }).notNull(),
+    status: varchar("status", { length: 16 }).notNull(), // linked | pending | accepted | rejected
+    reasons: jsonb("reasons").notNull(), // e.g. ["brand","model:wh1000xm5","tokens:0.75"]
+    createdAt: timestamp("created_at", { mode: "date" }).default(
+      sql`CURRENT_TIMESTAMP`,
+    ),
+    reviewedAt: timestamp("reviewed_at", { mode: "date" }),
+  },
+  (table) => ({
+    uniqueMatchPair: uniqueIndex("uniqueScrapedProductMatch").on(
+      table.listingId,
+      table.productId,
+    ),
+    matchStatusIndex: index("scrapedProductMatchStatusIndex").on(table.status),
+  }),
+);
+
+// Extracted products that failed validation (no name, price <= 0, foreign host).
+// Kept out of scraped_product_listings so bad pages never become listings.
+export const scrapedListingRejects = pgTable(
+  "scraped_listing_rejects",
+  {
+    id: serial("id").primaryKey(),
+    scrapedStoreId: integer("scraped_store_id")
+      .references(() => scrapedStores.id)
+      .notNull(),
+    scrapeRunId: integer("scrape_run_id").references(() => scrapeRuns.id),
+    productUrl: varchar("product_url", { length: 5000 }).notNull(),
+    field: varchar("field", { length: 64 }), // ValidationError.field, e.g. "price"
+    message: text("message").notNull(),
+    rawData: jsonb("raw_data"), // the extracted product as it was rejected
+    rejectedAt: timestamp("rejected_at", { mode: "date" }).notNull(),
+  },
+  (table) => ({
+    listingRejectStoreIndex: index("listingRejectStoreIndex").on(
+      table.scrapedStoreId,
+      table.rejectedAt,
+    ),
+    listingRejectRunIndex: index("listingRejectRunIndex").on(table.scrapeRunId),
+  }),
+);
+
+// Price/stock time series: a row is only added when a tracked field changed
+export const scrapedPriceHistory = pgTable(
+  "scraped_price_history",
+  {
+    id: serial("id").primaryKey(),
+    scrapedStoreId: integer("scraped_store_id")
+      .references(() => scrapedStores.id)
+      .notNull(),
+    productUrl: varchar("product_url", { length: 5000 }).notNull(),
+    ean: varchar("ean", { length: 100 }),
+    priceMinor: integer("price_minor"),
+    originalPriceMinor: integer("original_price_minor"),
+    currency: varchar("currency", { length: 16 }),
+    inStock: boolean("in_stock"),
+    changedFields: jsonb("changed_fields").notNull(), // e.g. ["price","inStock"]; all tracked fields on first sighting
+    scrapeRunId: integer("scrape_run_id").references(() => scrapeRuns.id),
+    recordedAt: timestamp("recorded_at", { mode: "date" }).notNull(),
+  },
+  (table) => ({
+    priceHistoryListingIndex: index("priceHistoryListingIndex").on(
+      table.scrapedStoreId,
+      table.productUrl,
+      table.recordedAt,
+    ),
+    priceHistoryEanIndex: index("priceHistoryEanIndex").on(table.ean),
+  }),
+);
+
+// Stock transition log: a row when a listing's known stock state (true/false)
+// differs from its previous known state. Unknown (null) observations are skipped.
+export const scrapedStockTransitions = pgTable(
+  "scraped_stock_transitions",
+  {
+    id: serial("id").primaryKey(),
+    scrapedStoreId: integer("scraped_store_id")
+      .references(() => scrapedStores.id)
+      .notNull(),
+    productUrl: varchar("product_url", { length: 5000 }).notNull(),
+    ean: varchar("ean", { length: 100 }),
+    inStock: boolean("in_stock").notNull(),
+    previousInStock: boolean("previous_in_stock"), // null on the first known state
+    scrapeRunId: integer("scrape_run_id").references(() => scrapeRuns.id),
+    recordedAt: timestamp("recorded_at", { mode: "date" }).notNull(),
+  },
+  (table) => ({
+    stockTransitionListingIndex: index("stockTransitionListingIndex").on(
+      table.scrapedStoreId,
+      table.productUrl,
+      table.recordedAt,
+    ),
+    stockTransitionRecordedAtIndex: index("stockTransitionRecordedAtIndex").on(
+      table.recordedAt,
+    ),
+  }),
+);
+
+// Per-URL crawl state used by delta/refresh runs to decide what to revisit
+export const scrapedUrlState = pgTable(
+  "scraped_url_state",
+  {
+    id: serial("id").primaryKey(),
+    scrapedStoreId: integer("scraped_store_id")
+      .references(() => scrapedStores.id)
+      .notNull(),
+    url: varchar("url", { length: 5000 }).notNull(),
+    lastmod: timestamp("lastmod", { mode: "date" }), // sitemap <lastmod> at last crawl
+    lastCrawledAt: timestamp("last_crawled_at", { mode: "date" }).notNull(),
+    createdAt: timestamp("created_at", { mode: "date" }).default(
+      sql`CURRENT_TIMESTAMP`,
+    ),
+    updatedAt: timestamp("updated_at", { mode: "date" }),
+  },
+  (table) => ({
+    uniqueScrapedUrlState: uniqueIndex("uniqueScrapedUrlState").on(
+      table.scrapedStoreId,
+      table.url,
+    ),
   }),
 );
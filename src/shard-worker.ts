@@ -0,0 +1,59 @@
+/**
+ * Shard entry point for the sharded execution strategy
+ * Runs one slice of a site's frontier, either as a forked child process
+ * (task arrives over IPC) or as a worker thread (task in workerData)
+ */
+
+import "dotenv/config";
+import { parentPort, workerData } from "node:worker_threads";
+import { setMaxBrowserPages } from "./core/browser/page-pool";
+import { runSite } from "./core/execution/runner";
+import type { ShardMessage, ShardTask } from "./core/execution/sharded";
+import { registry } from "./sites/registry";
+
+/**
+ * Send a message to the parent (worker port or IPC channel)
+ */
+function send(msg: ShardMessage): Promise<void> {
+  if (parentPort) {
+    parentPort.postMessage(msg);
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    if (!process.send) return resolve();
+    process.send(msg, undefined, undefined, () => resolve());
+  });
+}
+
+async function runTask(task: ShardTask) {
+  try {
+    const adapter = registry.get(task.siteKey);
+    if (!adapter) throw new Error(`Unknown site: ${task.siteKey}`);
+    // föräldern håller motsvarande platser i sitt tak
+    setMaxBrowserPages(task.maxPages);
+
+    const stats = await runSite(adapter, {
+      ...task.options,
+      onProgress: ({ ok, fails }) =>
+        void send({ type: "progress", shardId: task.shardId, ok, fails }),
+    });
+    await send({ type: "result", shardId: task.shardId, stats });
+    process.exit(0);
+  } catch (e: any) {
+    await send({
+      type: "error",
+      shardId: task.shardId,
+      error: e?.message || String(e),
+    });
+    process.exit(1);
+  }
+}
+
+if (parentPort) {
+  void runTask(workerData as ShardTask);
+} else if (process.send) {
+  process.once("message", (task) => void runTask(task as ShardTask));
+} else {
+  console.error("shard-worker must be started by the sharded executor");
+  process.exit(1);
+}
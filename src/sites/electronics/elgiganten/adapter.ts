@@ -1,5 +1,5 @@
 // src/sites/elgiganten/adapter.ts
-import type { Page, Request, Route } from "playwright";
+import type { BrowserContext, Page, Request, Route } from "playwright";
 import type { Product, SiteAdapter } from "../../../core/types/index";
 
 const ORIGIN = "https://www.elgiganten.se";
@@ -62,6 +62,8 @@ export const adapter: SiteAdapter = {
 
   defaults: { currency: "SEK" },
 
+  extraction: { mode: "fastpath" },
+
   consent: async (page: Page) => {
     const sels = [
       'button:has-text("Acceptera")',
@@ -87,13 +89,9 @@ export const adapter: SiteAdapter = {
     return p;
   },
 
-  /** Browser-fallback (endast om ALLOW_BROWSER_FALLBACK=true) */
-  customExtract: async function (
-    this: SiteAdapter,
-    page: Page,
-    url: string,
-  ): Promise<Product> {
-    await page.route("**/*", (route: Route) => {
+  /** Blockera tunga resurser och tredjepartsskript (en gång per context) */
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const req: Request = route.request();
       const type = req.resourceType();
       const u = req.url();
@@ -117,14 +115,14 @@ export const adapter: SiteAdapter = {
       if (/\.(mp4|webm|avi|mov)(\?|$)/i.test(u)) return route.abort();
       return route.continue();
     });
+  },
 
-    await page
-      .goto(url, { waitUntil: "domcontentloaded", timeout: 20_000 })
-      .catch(() => {});
-    try {
-      await this.consent?.(page);
-    } catch {}
-
+  /** Browser-fallback (endast om ALLOW_BROWSER_FALLBACK=true) */
+  customExtract: async function (
+    this: SiteAdapter,
+    page: Page,
+    url: string,
+  ): Promise<Product> {
     // JSON-LD Product
     const parseJson = (t: string) => {
       try {
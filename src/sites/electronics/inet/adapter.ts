@@ -1,5 +1,5 @@
 // src/sites/inet/adapter.ts
-import type { Page, Route, Request } from "playwright";
+import type { BrowserContext, Page, Route, Request } from "playwright";
 import type { SiteAdapter, Product } from "../../../core/types/index";
 
 const ORIGIN = "https://www.inet.se";
@@ -225,6 +225,9 @@ export const adapter: SiteAdapter = {
 
   defaults: { currency: "SEK" },
 
+  // Serverrenderad Next.js – HTML räcker normalt
+  extraction: { mode: "fastpath" },
+
   consent: async (page: Page) => {
     const sels = [
       'button:has-text("Acceptera")',
@@ -329,11 +332,8 @@ export const adapter: SiteAdapter = {
     return p;
   },
 
-  // Browser-fallback finns kvar (används bara om ALLOW_BROWSER_FALLBACK=true)
-  customExtract: async function (_page: Page, url: string): Promise<Product> {
-    const page = _page;
-
-    await page.route("**/*", (route: Route) => {
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const req: Request = route.request();
       const t = req.resourceType();
       const u = req.url();
@@ -342,9 +342,11 @@ export const adapter: SiteAdapter = {
         return route.abort();
       return route.continue();
     });
+  },
 
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 25000 }).catch(() => {});
-    try { await this.consent?.(page); } catch {}
+  // Browser-fallback finns kvar (används bara om ALLOW_BROWSER_FALLBACK=true)
+  customExtract: async function (_page: Page, url: string): Promise<Product> {
+    const page = _page;
 
     // JSON-LD (standardvägen)
     const ldNodes = await page.locator('script[type="application/ld+json"]').all();
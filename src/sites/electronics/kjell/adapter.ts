@@ -1,5 +1,5 @@
 // src/sites/kjell/adapter.ts
-import type { Page, Route, Request } from "playwright";
+import type { BrowserContext, Page, Route, Request } from "playwright";
 import type { SiteAdapter, Product } from "../../../core/types/index";
 
 const ORIGIN = "https://www.kjell.com";
@@ -73,10 +73,8 @@ export const adapter: SiteAdapter = {
     return p;
   },
 
-  customExtract: async function (_page: Page, url: string): Promise<Product> {
-    const page = _page;
-
-    await page.route("**/*", (route: Route) => {
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const req: Request = route.request();
       const t = req.resourceType();
       const u = req.url();
@@ -85,9 +83,10 @@ export const adapter: SiteAdapter = {
         return route.abort();
       return route.continue();
     });
+  },
 
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 25000 }).catch(() => {});
-    try { await this.consent?.(page); } catch {}
+  customExtract: async function (_page: Page, url: string): Promise<Product> {
+    const page = _page;
 
     // 1) JSON-LD Product / WebPage->mainEntity / @graph
     const ldNodes = await page.locator('script[type="application/ld+json"]').all();
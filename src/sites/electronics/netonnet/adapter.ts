@@ -1,5 +1,5 @@
 // src/sites/netonnet/adapter.ts
-import type { Page, Route, Request } from "playwright";
+import type { BrowserContext, Page, Route, Request } from "playwright";
 import type { SiteAdapter, Product } from "../../../core/types/index";
 
 const ORIGIN = "https://www.netonnet.se";
@@ -61,17 +61,16 @@ export const adapter: SiteAdapter = {
 
   fastpathAdjust: (_html, p) => { if (!p.currency) p.currency = "SEK"; p.imageUrl = abs(p.imageUrl); return p; },
 
-  customExtract: async function (this: SiteAdapter, page: Page, url: string): Promise<Product> {
-    await page.route("**/*", (route: Route) => {
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const r: Request = route.request(); const t=r.resourceType(); const u=r.url();
       if (["image","media","font","stylesheet"].includes(t)) return route.abort();
       if (/analytics|gtm|doubleclick|hotjar|optimizely|facebook|pixel|fullstory|sentry/i.test(u)) return route.abort();
       return route.continue();
     });
+  },
 
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 25000 }).catch(()=>{});
-    await this.consent?.(page);
-
+  customExtract: async function (this: SiteAdapter, page: Page, url: string): Promise<Product> {
     const parse = (t:string)=>{ try{ return JSON.parse(t);}catch{ return null; } };
     const hasType = (v:any,re:RegExp)=> (typeof v==="string"&&re.test(v))||(Array.isArray(v)&&v.some(x=>typeof x==="string"&&re.test(x)));
     const pickProduct=(n:any):any=>{
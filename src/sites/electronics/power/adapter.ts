@@ -1,5 +1,5 @@
 // src/sites/power/adapter.ts
-import type { Page, Request, Route } from "playwright";
+import type { BrowserContext, Page, Request, Route } from "playwright";
 import type { Product, SiteAdapter } from "../../../core/types/index";
 
 const ORIGIN = "https://www.power.se";
@@ -128,11 +128,9 @@ export const adapter: SiteAdapter = {
     return p;
   },
 
-  customExtract: async function (_page: Page, url: string): Promise<Product> {
-    const page = _page;
-
-    // Blockera tunga/oväsentliga resurser
-    await page.route("**/*", (route: Route) => {
+  // Blockera tunga/oväsentliga resurser
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const r: Request = route.request();
       const t = r.resourceType();
       const u = r.url();
@@ -146,11 +144,10 @@ export const adapter: SiteAdapter = {
         return route.abort();
       return route.continue();
     });
+  },
 
-    await page
-      .goto(url, { waitUntil: "domcontentloaded", timeout: 25_000 })
-      .catch(() => {});
-    await this.consent?.(page);
+  customExtract: async function (_page: Page, url: string): Promise<Product> {
+    const page = _page;
 
     // ---- JSON-LD fast path ----
     const ldNodes = await page
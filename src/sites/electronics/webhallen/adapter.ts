@@ -1,5 +1,6 @@
 // src/sites/webhallen/adapter.ts
 import { load as loadHtml } from "cheerio";
+import { ExtractionError } from "../../../core/execution/errors";
 import type { Product, SiteAdapter } from "../../../core/types/index";
 
 const PDP_LOG = process.env.PDP_LOG === "1" || process.env.PDP_LOG === "true";
@@ -364,6 +365,9 @@ const adapter: SiteAdapter = {
 
   pacing: {
     navWaitPdp: "domcontentloaded", // före: "networkidle"
+    // sidan hydreras klientside: vänta in nätverket som customExtract gjorde förr
+    navSettlePdp: "networkidle",
+    navSettleTimeoutMs: 30_000,
     pdpConcurrency: 6, // lite upp från 3
     pdpTimeoutMs: 9000, // ner från 25s
     gotoMinSpacingMs: 150,
@@ -375,18 +379,19 @@ const adapter: SiteAdapter = {
     await tryConsent(page);
   },
 
-  // Primär extraktion i adaptern (för att vi ska kunna ha fallback direkt här)
-  customExtract: async (page, url) => {
+  // Säkerställ att det är en PDP enligt mönstret (många category/landing dyker upp i sitemapen)
+  // och ladda den normaliserade URL:en
+  beforeNavigate: async (_page, url) => {
     const u = normalizeUrl(url);
-    // Säkerställ att det är en PDP enligt mönstret (många category/landing dyker upp i sitemapen)
     if (!/\/se\/product\/\d+-/i.test(u)) {
-      throw new Error("Not a PDP");
+      throw new ExtractionError("Not a PDP");
     }
+    return u;
+  },
 
-    await page
-      .goto(u, { waitUntil: "networkidle", timeout: 30_000 })
-      .catch(() => {});
-    await tryConsent(page);
+  // Primär extraktion i adaptern (för att vi ska kunna ha fallback direkt här)
+  customExtract: async (page, url) => {
+    const u = normalizeUrl(url);
 
     // Vänta på antingen JSON-data, titel eller pris-element
     try {
@@ -400,7 +405,7 @@ const adapter: SiteAdapter = {
         }),
       ]);
     } catch {
-      // fortsätt ändå – vissa sidor är långsamma men networkidle räcker ofta
+      // fortsätt ändå – vissa sidor är långsamma att hydrera
     }
 
     const html = await page.content();
@@ -1,4 +1,4 @@
-import type { Page, Route, Request } from "playwright";
+import type { BrowserContext, Page, Route, Request } from "playwright";
 import type { SiteAdapter, Product } from "../../../core/types/index";
 
 const ORIGIN = "https://www.apohem.se";
@@ -9,27 +9,6 @@ const absUrl = (u: string | null) => {
   return u;
 };
 
-async function fetchHtml(url: string): Promise<string | null> {
-  try {
-    const r = await fetch(url, {
-      redirect: "follow",
-      headers: {
-        "user-agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
-        accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "accept-encoding": "gzip, deflate, br",
-        referer: "https://www.google.com/",
-      },
-    });
-    if (!r.ok) return null;
-    const buf = Buffer.from(await r.arrayBuffer());
-    const td = new TextDecoder("utf-8", { fatal: false });
-    return td.decode(buf);
-  } catch {
-    return null;
-  }
-}
-
 // ---- snabba parsers (HTML -> fält) ----
 function parsePrice(html: string): number | null {
   const metas =
@@ -87,9 +66,18 @@ export const adapter: SiteAdapter = {
       "https://www.apohem.se/sitemap.xml?batch=0&language=sv-se",
       "https://www.apohem.se/sitemap.xml?batch=1&language=sv-se",
       "https://www.apohem.se/sitemap.xml?batch=2&language=sv-se",
+      "https://www.apohem.se/sitemap.xml?batch=3&language=sv-se",
     ] as any,
   },
 
+  // stor sajt: kör i shards (egen process per chunk) för att hålla minnet nere
+  execution: {
+    strategy: "sharded",
+    chunkSize: Math.max(200, Number(process.env.APOHEM_CHUNK_SIZE || 1200) || 1200),
+    isolation: "process",
+    parallelShards: 1,
+  },
+
   normalizeUrl: (raw) => {
     const u = new URL(raw);
     u.search = "";
@@ -139,41 +127,29 @@ export const adapter: SiteAdapter = {
     }
   },
 
-  fastpathAdjust: (_html, p) => {
+  // HTML fastpath i core; browser bara när EAN/pris saknas
+  extraction: {
+    mode: "fastpath",
+    browserFallback: true,
+    requiredFields: ["price", "ean"],
+  },
+
+  fastpathAdjust: (html, p) => {
     if (!p.currency) p.currency = "SEK";
+    if (!p.ean) p.ean = parseEan(html);
+    if (p.price == null) p.price = parsePrice(html);
+    if (!p.name) p.name = parseTitle(html);
+    if (!p.imageUrl) p.imageUrl = parseImage(html);
+    if (!p.brand) p.brand = parseBrand(html);
+    if (p.inStock == null) p.inStock = parseInStock(html);
     p.imageUrl = absUrl(p.imageUrl);
     return p;
   },
 
   defaults: { currency: "SEK" },
 
-  customExtract: async (page: Page, url: string): Promise<Product> => {
-    // 1) HTML fastpath (ingen Playwright-DOM om vi får allt här)
-    const html = await fetchHtml(url);
-    if (html) {
-      const ean = parseEan(html);
-      const price = parsePrice(html);
-      const name = parseTitle(html);
-      const imageUrl = parseImage(html);
-      const brand = parseBrand(html);
-      const inStock = parseInStock(html);
-      if (ean && price !== null) {
-        return {
-          name: name ?? null,
-          price,
-          originalPrice: null,
-          currency: "SEK",
-          imageUrl,
-          ean,
-          url,
-          brand,
-          inStock,
-        };
-      }
-    }
-
-    // 2) Fallback: lätt Playwright + page.content() (fortfarande ingen innerText)
-    await page.route("**/*", (route: Route) => {
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const req: Request = route.request();
       const type = req.resourceType();
       const u = req.url();
@@ -182,8 +158,11 @@ export const adapter: SiteAdapter = {
         return route.abort();
       return route.continue();
     });
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 20000 }).catch(() => {});
-    const html2 = (await page.content().catch(() => "")) || html || "";
+  },
+
+  customExtract: async (page: Page, url: string): Promise<Product> => {
+    // Browser-fallback (HTML-fastpath körs i core): lätt Playwright + page.content() (fortfarande ingen innerText)
+    const html2 = (await page.content().catch(() => "")) || "";
 
     const ean = parseEan(html2);
     const price = parsePrice(html2);
@@ -1,5 +1,5 @@
 // src/sites/apoteket/adapter.ts
-import type { Page, Route, Request } from "playwright";
+import type { BrowserContext, Page, Route, Request } from "playwright";
 import type { SiteAdapter, Product } from "../../../core/types/index";
 
 const ORIGIN = "https://www.apoteket.se";
@@ -16,6 +16,17 @@ export const adapter: SiteAdapter = {
       "https://api.apoteket.se/sitemap/sitemapindex.xml",
     ],
     productUrlRegex: /\/produkt\//i,
+    // prövas även om SITEMAP_OVERRIDE/robots inte gav något i första försöket
+    fallbackSitemapUrls: [
+      "https://www.apoteket.se/api/sitemap/sitemapindex.xml",
+      "https://api.apoteket.se/sitemap/sitemapindex.xml",
+    ],
+  },
+
+  // körs först i en import; övriga sajter startar tidigast APOK_HEADSTART_MS efter
+  scheduling: {
+    priority: 10,
+    headstartMs: Number(process.env.APOK_HEADSTART_MS || 4000),
   },
   
   // 🔧 Sänk farten + längre timeout
@@ -63,8 +74,8 @@ export const adapter: SiteAdapter = {
   },
 
   // 👇 Viktigt: blockera tunga/resurskrävande requests för färre timeouts
-  customExtract: async (page: Page, url: string): Promise<Product> => {
-    await page.route("**/*", (route: Route) => {
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const req: Request = route.request();
       const type = req.resourceType();
       const u = req.url();
@@ -74,20 +85,9 @@ export const adapter: SiteAdapter = {
       if (/\.(mp4|webm|avi|mov)(\?|$)/i.test(u)) return route.abort();
       return route.continue();
     });
+  },
 
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 }).catch(() => {});
-
-    // Consent (snabb)
-    try {
-      for (const s of ['button:has-text("Acceptera")','button:has-text("Acceptera alla")','button:has-text("Godkänn")']) {
-        const el = page.locator(s).first();
-        if (await el.isVisible({ timeout: 800 }).catch(() => false)) {
-          await el.click({ timeout: 1200 }).catch(() => {});
-          break;
-        }
-      }
-    } catch {}
-
+  customExtract: async (page: Page, url: string): Promise<Product> => {
     // --- JSON-LD först
     const parseJson = (t: string) => { try { return JSON.parse(t); } catch { return null; } };
     const hasType = (t: any, re: RegExp) =>
@@ -1,27 +1,6 @@
 import type { Page } from "playwright";
 import type { SiteAdapter, Product } from "../../../core/types/index";
 
-async function fetchHtml(url: string): Promise<string | null> {
-  try {
-    const r = await fetch(url, {
-      redirect: "follow",
-      headers: {
-        "user-agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
-        accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "accept-encoding": "gzip, deflate, br",
-        referer: "https://www.google.com/",
-      },
-    });
-    if (!r.ok) return null;
-    const buf = Buffer.from(await r.arrayBuffer());
-    const td = new TextDecoder("utf-8", { fatal: false });
-    return td.decode(buf);
-  } catch {
-    return null;
-  }
-}
-
 // ---- parsers ----
 function parsePrice(html: string): number | null {
   // meta price först
@@ -107,41 +86,29 @@ export const adapter: SiteAdapter = {
     cooldownSeconds: 120,
   },
 
-  fastpathAdjust: (_html, p) => {
+  // HTML fastpath i core; browser bara när EAN/pris saknas
+  extraction: {
+    mode: "fastpath",
+    browserFallback: true,
+    requiredFields: ["price", "ean"],
+  },
+
+  fastpathAdjust: (html, p) => {
     if (!p.currency) p.currency = "SEK";
+    if (!p.ean) p.ean = parseEan(html);
+    if (p.price == null) p.price = parsePrice(html);
+    if (!p.name) p.name = parseTitle(html);
+    if (!p.imageUrl) p.imageUrl = parseImage(html);
+    if (!p.brand) p.brand = parseBrand(html);
+    if (p.inStock == null) p.inStock = parseInStock(html);
     return p;
   },
 
   defaults: { currency: "SEK" },
 
   customExtract: async (page: Page, url: string): Promise<Product> => {
-    // 1) HTML fastpath
-    const html = await fetchHtml(url);
-    if (html) {
-      const ean = parseEan(html);
-      const price = parsePrice(html);
-      const name = parseTitle(html);
-      const imageUrl = parseImage(html);
-      const brand = parseBrand(html);
-      const inStock = parseInStock(html);
-      if (ean && price !== null) {
-        return {
-          name: name ?? null,
-          price,
-          originalPrice: null,
-          currency: "SEK",
-          imageUrl,
-          ean,
-          url,
-          brand,
-          inStock,
-        };
-      }
-    }
-
-    // 2) Fallback: Playwright men bara page.content() (ingen innerText)
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 20000 }).catch(() => {});
-    const html2 = (await page.content().catch(() => "")) || html || "";
+    // Browser-fallback (HTML-fastpath körs i core): Playwright men bara page.content()
+    const html2 = (await page.content().catch(() => "")) || "";
 
     const ean = parseEan(html2);
     const price = parsePrice(html2);
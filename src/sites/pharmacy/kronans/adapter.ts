@@ -1,5 +1,5 @@
 // src/sites/kronans/adapter.ts
-import type { Page, Route, Request, Response } from "playwright";
+import type { BrowserContext, Page, Route, Request, Response } from "playwright";
 import type { SiteAdapter, Product } from "../../../core/types/index";
 
 const ORIGIN = "https://www.kronansapotek.se";
@@ -78,6 +78,36 @@ function tryParseJSON(t: string): any | null {
   }
 }
 
+/** EAN/GTIN som sniffats ur nätverkstrafiken, per sida (nollställs före varje navigering) */
+const netGtins = new WeakMap<Page, string>();
+/** Sidor som redan har response-lyssnaren */
+const sniffing = new WeakSet<Page>();
+
+/** Sniffa nätverk för EAN i JSON/XHR/GraphQL */
+async function sniffGtin(page: Page, resp: Response) {
+  try {
+    const ct = resp.headers()["content-type"] || "";
+    if (!/json|ld\+json|javascript/i.test(ct)) return;
+
+    // Försök .json(), annars .text() → parse
+    let data: any = null;
+    try {
+      data = await resp.json();
+    } catch {
+      const t = await resp.text();
+      data = tryParseJSON(t) ?? t;
+    }
+
+    const found =
+      typeof data === "string"
+        ? extractGtinFromText(data)
+        : data && typeof data === "object"
+        ? deepFindGtin(data)
+        : null;
+    if (found && !netGtins.has(page)) netGtins.set(page, found);
+  } catch {}
+}
+
 export const adapter: SiteAdapter = {
   key: "kronans",
   displayName: "Kronans Apotek",
@@ -118,9 +148,9 @@ export const adapter: SiteAdapter = {
     }
   },
 
-  customExtract: async (page: Page, url: string): Promise<Product> => {
-    // Blockera tunga resurser och spårning för fart/stabilitet
-    await page.route("**/*", (route: Route) => {
+  // Blockera tunga resurser och spårning för fart/stabilitet (en gång per context)
+  setupContext: async (context: BrowserContext) => {
+    await context.route("**/*", (route: Route) => {
       const req: Request = route.request();
       const type = req.resourceType();
       const u = req.url();
@@ -134,41 +164,19 @@ export const adapter: SiteAdapter = {
       if (/\.(mp4|webm|avi|mov)(\?|$)/i.test(u)) return route.abort();
       return route.continue();
     });
+  },
 
-    // Sniffa nätverk för EAN i JSON/XHR/GraphQL
-    let netGtin: string | null = null;
-    const sniff = async (resp: Response) => {
-      try {
-        const ct = resp.headers()["content-type"] || "";
-        if (!/json|ld\+json|javascript/i.test(ct)) return;
-
-        // Försök .json(), annars .text() → parse
-        let data: any = null;
-        try {
-          data = await resp.json();
-        } catch {
-          const t = await resp.text();
-          data = tryParseJSON(t) ?? t;
-        }
-
-        if (typeof data === "string") {
-          netGtin = netGtin || extractGtinFromText(data);
-          return;
-        }
-        if (data && typeof data === "object") {
-          const found = deepFindGtin(data);
-          if (found) netGtin = netGtin || found;
-        }
-      } catch {}
-    };
-    page.on("response", sniff);
-
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 }).catch(() => {});
+  // Sniffa GTIN ur XHR för den här navigeringen
+  beforeNavigate: async (page: Page) => {
+    netGtins.delete(page);
+    if (!sniffing.has(page)) {
+      sniffing.add(page);
+      page.on("response", (resp) => sniffGtin(page, resp));
+    }
+  },
 
-    // Consent
-    try {
-      await adapter.consent?.(page);
-    } catch {}
+  customExtract: async (page: Page, url: string): Promise<Product> => {
+    const sniffed = () => netGtins.get(page) ?? null;
 
     // --- JSON-LD (robust) ---
     try {
@@ -235,7 +243,7 @@ export const adapter: SiteAdapter = {
           let ean: string | null =
             prod.gtin13 || prod.gtin14 || prod.gtin12 || prod.gtin8 || prod.gtin || prod.ean || null;
           if (!ean && prod.additionalProperty) ean = deepFindGtin(prod.additionalProperty);
-          if (!ean) ean = netGtin;
+          if (!ean) ean = sniffed();
 
           const brandName =
             (typeof prod.brand === "string" ? prod.brand : prod.brand?.name) ??
@@ -267,7 +275,7 @@ export const adapter: SiteAdapter = {
         const data = tryParseJSON(raw);
         if (!data) continue;
         const found = deepFindGtin(data) || extractGtinFromText(raw);
-        if (found) netGtin = netGtin || found;
+        if (found && !netGtins.has(page)) netGtins.set(page, found);
       }
     } catch {}
 
@@ -321,7 +329,7 @@ export const adapter: SiteAdapter = {
       (await page.locator("a[href*='/varumarken/']").first().innerText().catch(() => null)) ?? null;
 
     // EAN/GTIN från HTML om allt annat fallerat
-    let ean: string | null = netGtin;
+    let ean: string | null = sniffed();
     if (!ean) {
       try {
         const html = await page.content();
@@ -5,7 +5,9 @@
 
 import "dotenv/config";
 import http from "http";
+import { assertSchemaCompatible } from "./core/migrations";
 import { createImportWorker } from "./core/services/queue";
+import { parseSinkNames } from "./core/sinks/factory";
 import { Logger } from "./core/utils/logger";
 
 /**
@@ -14,6 +16,15 @@ import { Logger } from "./core/utils/logger";
 async function main() {
   Logger.info("Starting BullMQ worker for import jobs");
 
+  // vägra köra mot ett schema som inte matchar den här builden
+  // (SQLite-backenden skapar sitt eget schema)
+  if (
+    !/^(1|true)$/i.test(process.env.SKIP_SCHEMA_CHECK || "") &&
+    parseSinkNames(process.env.SINKS || "postgres").includes("postgres")
+  ) {
+    await assertSchemaCompatible();
+  }
+
   // Create worker to process jobs with default processor and event handlers
   const worker = createImportWorker();
 